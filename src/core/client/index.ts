@@ -0,0 +1,12 @@
+/// <reference types="@citizenfx/client" />
+
+// UI resources also load this script as `@core/client/client.js`, so it runs in
+// their context and SendNUIMessage reaches their own NUI frame
+const resourceName = GetCurrentResourceName();
+
+// Reload the NUI frame after the server pushed new UI files, keeping script state
+onNet('core:reloadNui', (target: string) => {
+  if (target === resourceName) {
+    SendNUIMessage({ action: 'core:reloadNui' });
+  }
+});
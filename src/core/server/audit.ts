@@ -0,0 +1,32 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Append-only JSON lines file recording every privileged API action
+const AUDIT_LOG_PATH = GetConvar(
+  'resource_manager_audit_log',
+  'resource_manager_audit.log'
+);
+
+fs.mkdirSync(path.dirname(path.resolve(AUDIT_LOG_PATH)), { recursive: true });
+
+export interface AuditEntry {
+  identity: string;
+  action: string;
+  target?: string;
+  success: boolean;
+  details?: Record<string, unknown>;
+}
+
+// Append an entry to the audit log; failures are reported but never thrown
+export function writeAuditEntry(entry: AuditEntry): void {
+  const line = JSON.stringify({
+    timestamp: new Date().toISOString(),
+    ...entry,
+  });
+
+  fs.appendFile(AUDIT_LOG_PATH, `${line}\n`, { flag: 'a' }, (err) => {
+    if (err) {
+      console.error(`[audit] Failed to write to ${AUDIT_LOG_PATH}:`, err);
+    }
+  });
+}
@@ -0,0 +1,164 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import type * as http from 'http';
+
+export type TokenScope = 'read' | 'restart' | 'command' | 'deploy' | 'events';
+
+export const ALL_SCOPES: TokenScope[] = [
+  'read',
+  'restart',
+  'command',
+  'deploy',
+  'events',
+];
+
+export interface ApiToken {
+  name: string;
+  scopes: TokenScope[];
+}
+
+interface TokenDefinition extends ApiToken {
+  token: string;
+}
+
+// Placeholder keys shipped in examples; never accepted as credentials
+const DEFAULT_KEYS = ['your-secure-api-key', 'your-api-key'];
+
+// Local JSON file holding `[{ "name", "token", "scopes" }]` definitions
+const TOKENS_FILE = GetConvar(
+  'resource_manager_tokens_file',
+  'resource_manager_tokens.json'
+);
+
+// Comma separated list of origins allowed to call the API from a browser
+const CORS_ORIGINS = GetConvar(
+  'resource_manager_cors_origins',
+  process.env.CORS_ORIGINS || ''
+)
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+// Normalize a raw definition, dropping unknown scopes
+function parseDefinition(raw: unknown): TokenDefinition | null {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const { name, token, scopes } = raw as Record<string, unknown>;
+  if (typeof name !== 'string' || typeof token !== 'string' || !token) {
+    return null;
+  }
+
+  return {
+    name,
+    token,
+    scopes: Array.isArray(scopes)
+      ? ALL_SCOPES.filter((scope) => scopes.includes(scope))
+      : ['read'],
+  };
+}
+
+// Read token definitions from a JSON string, reporting malformed input
+function parseDefinitions(json: string, source: string): TokenDefinition[] {
+  try {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) {
+      throw new Error('expected an array of token definitions');
+    }
+
+    return parsed
+      .map(parseDefinition)
+      .filter((definition): definition is TokenDefinition => !!definition);
+  } catch (error) {
+    console.error(`[auth] Ignoring invalid tokens from ${source}:`, error);
+    return [];
+  }
+}
+
+// Collect tokens from the tokens file, the `resource_manager_tokens` convar
+// and the legacy API_KEY environment variable (granted every scope)
+function loadTokens(): TokenDefinition[] {
+  const tokens: TokenDefinition[] = [];
+
+  if (fs.existsSync(TOKENS_FILE)) {
+    tokens.push(
+      ...parseDefinitions(fs.readFileSync(TOKENS_FILE, 'utf8'), TOKENS_FILE)
+    );
+  }
+
+  const convarTokens = GetConvar('resource_manager_tokens', '');
+  if (convarTokens) {
+    tokens.push(...parseDefinitions(convarTokens, 'resource_manager_tokens'));
+  }
+
+  const apiKey = process.env.API_KEY;
+  if (apiKey) {
+    tokens.push({ name: 'api-key', token: apiKey, scopes: ALL_SCOPES });
+  }
+
+  return tokens.filter(({ token }) => !DEFAULT_KEYS.includes(token));
+}
+
+const tokens = loadTokens();
+
+// Whether at least one usable token is configured; the server refuses to start otherwise
+export function hasConfiguredTokens(): boolean {
+  return tokens.length > 0;
+}
+
+// Compare secrets in constant time, independent of their lengths
+function safeEqual(a: string, b: string): boolean {
+  const hashA = crypto.createHash('sha256').update(a).digest();
+  const hashB = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(hashA, hashB);
+}
+
+// Check the bearer token of a request, falling back to a `token` query parameter
+// for clients (such as browsers opening a WebSocket) that cannot set headers.
+// Returns the matching token identity, or null when unauthorized.
+export function authenticate(
+  req: http.IncomingMessage,
+  queryToken?: string
+): ApiToken | null {
+  const authHeader = req.headers.authorization || '';
+  const providedKey = authHeader
+    ? authHeader.replace('Bearer ', '')
+    : queryToken || '';
+
+  if (!providedKey) return null;
+
+  // Check every token so timing does not reveal which one matched
+  let match: ApiToken | null = null;
+  for (const { token, name, scopes } of tokens) {
+    if (safeEqual(providedKey, token) && !match) {
+      match = { name, scopes };
+    }
+  }
+
+  return match;
+}
+
+// Whether a token grants the given scope
+export function hasScope(token: ApiToken, scope: TokenScope): boolean {
+  return token.scopes.includes(scope);
+}
+
+// Set CORS headers for allowed origins only; other origins get no CORS grant
+export function applyCorsHeaders(
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): void {
+  const origin = req.headers.origin;
+  if (!origin) return;
+
+  if (CORS_ORIGINS.includes('*')) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+  } else if (CORS_ORIGINS.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+  } else {
+    return;
+  }
+
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+}
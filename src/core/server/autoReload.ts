@@ -0,0 +1,307 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { findResourceDirs } from './builds';
+import { emitManagerEvent } from './events';
+import { reloadResourceNui, restartResourceWithDependents } from './resources';
+
+// Folders holding built resources, relative to the server's working directory
+const WATCH_PATHS = ['dist'];
+
+// Quiet period after the last file event before changed resources are checked
+const WATCH_DEBOUNCE = GetConvarInt('resource_manager_watch_debounce', 300);
+
+// Content hashes of every watched resource folder, keyed by folder path. NUI
+// assets are hashed apart so UI-only changes can skip the restart.
+const resourceHashes = new Map<string, FolderHashes>();
+
+interface FolderHashes {
+  code: string;
+  ui: string;
+}
+
+interface ResourceManifest {
+  // FiveM names resources after their folder, not the manifest's `name` field
+  name: string;
+  // Folder of the declared ui_page relative to the resource, e.g. `ui`
+  uiDir: string | null;
+}
+
+// Resource folders with file events since the last check
+const pendingFolders = new Set<string>();
+
+let debounceTimer: NodeJS.Timeout | undefined;
+let checking = false;
+
+// Hash every file of a folder (paths and contents) in a stable order without
+// blocking the server thread, files under `uiDir` separately from the rest;
+// resolves to null when the folder is gone
+async function hashFolder(
+  folderPath: string,
+  uiDir: string | null
+): Promise<FolderHashes | null> {
+  const codeHash = crypto.createHash('sha256');
+  const uiHash = crypto.createHash('sha256');
+
+  const visit = async (current: string) => {
+    const entries = (
+      await fs.promises.readdir(current, { withFileTypes: true })
+    ).sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        await visit(fullPath);
+      } else if (entry.isFile()) {
+        const relPath = path.relative(folderPath, fullPath).replace(/\\/g, '/');
+        const hash =
+          uiDir && relPath.startsWith(`${uiDir}/`) ? uiHash : codeHash;
+        hash.update(relPath);
+        hash.update(await fs.promises.readFile(fullPath));
+      }
+    }
+  };
+
+  try {
+    await visit(folderPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+
+  return { code: codeHash.digest('hex'), ui: uiHash.digest('hex') };
+}
+
+// Map a changed file to the resource folder owning it: the nearest folder with an
+// fxmanifest.lua, or null when the file is not inside a resource
+function getResourceFolder(watchPath: string, file: string): string | null {
+  const root = path.resolve(watchPath);
+  let dir = path.resolve(file);
+
+  while (dir.startsWith(root + path.sep)) {
+    if (fs.existsSync(path.join(dir, 'fxmanifest.lua'))) return dir;
+    dir = path.dirname(dir);
+  }
+
+  return null;
+}
+
+// Name a resource folder and read the ui_page folder declared in its fxmanifest.lua
+async function readManifest(folder: string): Promise<ResourceManifest> {
+  let manifest = '';
+  try {
+    manifest = await fs.promises.readFile(
+      path.join(folder, 'fxmanifest.lua'),
+      'utf8'
+    );
+  } catch {
+    // Manifest removed since the change was queued
+  }
+
+  const uiPage = manifest.match(/^\s*ui_page\s*\(?\s*['"]([^'"]+)['"]/m);
+  const uiDir = uiPage ? path.posix.dirname(uiPage[1]) : null;
+
+  return {
+    name: path.basename(folder),
+    // A ui_page at the resource root leaves no assets that can change on their own
+    uiDir: uiDir && uiDir !== '.' ? uiDir : null,
+  };
+}
+
+// Queue the resource owning a changed file and (re)start the debounce window
+function queueChange(watchPath: string, filename: string | null): void {
+  if (!filename) return;
+
+  const folder = getResourceFolder(watchPath, path.join(watchPath, filename));
+  if (!folder) return;
+
+  pendingFolders.add(folder);
+  clearTimeout(debounceTimer);
+  debounceTimer = setTimeout(() => void checkPendingFolders(), WATCH_DEBOUNCE);
+}
+
+// Re-hash queued resource folders, reload the NUI of resources where only UI
+// assets changed and restart the resources whose other files changed
+async function checkPendingFolders(): Promise<void> {
+  // A check already in flight picks up anything queued meanwhile when it finishes
+  if (checking) return;
+  checking = true;
+
+  try {
+    while (pendingFolders.size > 0) {
+      const folders = [...pendingFolders];
+      pendingFolders.clear();
+
+      const changedResources: string[] = [];
+      for (const folder of folders) {
+        const manifest = await readManifest(folder);
+        const hashes = await hashFolder(folder, manifest.uiDir);
+        if (hashes === null) {
+          resourceHashes.delete(folder);
+          continue;
+        }
+
+        const previous = resourceHashes.get(folder);
+        resourceHashes.set(folder, hashes);
+        if (previous?.code === hashes.code) {
+          if (previous.ui !== hashes.ui) {
+            console.log(
+              `[auto-reload] Detected UI-only change in resource: ${manifest.name}`
+            );
+            // Pages that cannot reload themselves get the new files on restart
+            if (!reloadResourceNui(manifest.name)) {
+              changedResources.push(manifest.name);
+            }
+          }
+          continue;
+        }
+
+        changedResources.push(manifest.name);
+        console.log(
+          `[auto-reload] Detected change in resource: ${manifest.name}`
+        );
+      }
+
+      if (changedResources.length > 0) {
+        await restartChangedResources(changedResources);
+      }
+    }
+  } catch (error) {
+    console.error('[auto-reload] Error checking for changes:', error);
+  } finally {
+    checking = false;
+  }
+}
+
+// Restart changed resources together with the resources depending on them
+async function restartChangedResources(
+  changedResources: string[]
+): Promise<void> {
+  emitManagerEvent('autoReload:detected', { resources: changedResources });
+
+  console.log(
+    `[auto-reload] Restarting ${changedResources.length} changed resources...`
+  );
+
+  // Dependents restarted as part of an earlier cascade are not restarted again
+  const restarted = new Set<string>();
+
+  for (const resource of changedResources) {
+    if (resource === GetCurrentResourceName() || restarted.has(resource)) {
+      continue;
+    }
+
+    const result = await restartResourceWithDependents(resource);
+    result.order.forEach((name) => restarted.add(name));
+    console.log(
+      `[auto-reload] Resource '${resource}' restart ${
+        result.success ? 'successful' : 'failed'
+      }`
+    );
+    if (result.order.length > 1) {
+      console.log(
+        `[auto-reload] Restarted dependents: ${result.order.slice(1).join(', ')}`
+      );
+    }
+    for (const [name, failure] of Object.entries(result.failures)) {
+      console.error(
+        `[auto-reload] Resource '${name}' is '${failure.state}' after restart`
+      );
+      failure.errors.forEach((error) =>
+        console.error(`[auto-reload] [${name}] ${error}`)
+      );
+      if (failure.restoredBuild) {
+        console.log(
+          `[auto-reload] Restored last good build ${failure.restoredBuild} of '${name}'`
+        );
+      }
+    }
+  }
+}
+
+// Watch a folder tree, falling back to one watcher per directory where
+// recursive watching is unsupported
+function watchTree(
+  root: string,
+  onChange: (filename: string | null) => void
+): void {
+  try {
+    fs.watch(root, { recursive: true }, (_event, filename) =>
+      onChange(filename ? filename.toString() : null)
+    );
+    return;
+  } catch (error) {
+    if (
+      (error as NodeJS.ErrnoException).code !==
+      'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM'
+    ) {
+      throw error;
+    }
+  }
+
+  const watched = new Set<string>();
+  const watchDirectory = (dir: string) => {
+    if (watched.has(dir)) return;
+    watched.add(dir);
+
+    const watcher = fs.watch(dir, (_event, filename) => {
+      const relPath = filename
+        ? path.relative(root, path.join(dir, filename.toString()))
+        : path.relative(root, dir);
+      onChange(relPath || null);
+
+      // Pick up directories created after the watcher started
+      if (filename) {
+        const fullPath = path.join(dir, filename.toString());
+        fs.stat(fullPath, (err, stats) => {
+          if (!err && stats.isDirectory()) watchDirectory(fullPath);
+        });
+      }
+    });
+    watcher.on('error', () => {
+      watcher.close();
+      watched.delete(dir);
+    });
+
+    fs.readdir(dir, { withFileTypes: true }, (err, entries) => {
+      if (err) return;
+      entries
+        .filter((entry) => entry.isDirectory())
+        .forEach((entry) => watchDirectory(path.join(dir, entry.name)));
+    });
+  };
+
+  watchDirectory(root);
+}
+
+// Initialize file watcher to detect rebuilt resources
+export async function initializeFileWatcher(): Promise<void> {
+  console.log(
+    `[auto-reload] Initializing file watcher for resource auto-reload`
+  );
+
+  for (const watchPath of WATCH_PATHS) {
+    if (!fs.existsSync(watchPath)) {
+      console.log(`[auto-reload] ${watchPath} does not exist, not watching it`);
+      continue;
+    }
+
+    try {
+      // Record the current content of every resource so identical rebuilds are ignored
+      for (const relPath of findResourceDirs(watchPath)) {
+        const folder = path.resolve(watchPath, relPath);
+        const { uiDir } = await readManifest(folder);
+        const hashes = await hashFolder(folder, uiDir);
+        if (hashes !== null) resourceHashes.set(folder, hashes);
+      }
+
+      watchTree(watchPath, (filename) => queueChange(watchPath, filename));
+    } catch (error) {
+      console.error(`[auto-reload] Error watching ${watchPath}:`, error);
+    }
+  }
+
+  console.log(
+    `[auto-reload] File watcher started with ${WATCH_DEBOUNCE}ms debounce`
+  );
+}
@@ -0,0 +1,97 @@
+import type * as http from 'http';
+
+// The bridge lets API callers fire arbitrary events, so it is never available in production
+export const BRIDGE_ENABLED =
+  GetConvar('resource_manager_env', process.env.NODE_ENV || 'development') !==
+  'production';
+
+export interface BridgeEmission {
+  event: string;
+  source: number;
+  args: unknown[];
+  timestamp: number;
+}
+
+// Event name -> handler registered with the runtime and the stream listeners it feeds
+const watchers = new Map<
+  string,
+  {
+    handler: (...args: unknown[]) => void;
+    listeners: Set<(emission: BridgeEmission) => void>;
+  }
+>();
+
+// Function to fire a server event in every resource, as TriggerEvent would
+export function triggerServerEvent(event: string, args: unknown[]): void {
+  TriggerEvent(event, ...args);
+}
+
+// Function to send an event to one player's client (-1 for every player)
+export function triggerClientEvent(
+  event: string,
+  target: number,
+  args: unknown[]
+): void {
+  TriggerClientEvent(event, target, ...args);
+}
+
+// Register a listener for an event, hooking it into the runtime on first use
+function watchEvent(
+  event: string,
+  listener: (emission: BridgeEmission) => void
+): () => void {
+  let watcher = watchers.get(event);
+  if (!watcher) {
+    const listeners = new Set<(emission: BridgeEmission) => void>();
+    const handler = (...args: unknown[]) => {
+      const emission: BridgeEmission = {
+        event,
+        source,
+        args,
+        timestamp: Date.now(),
+      };
+      for (const notify of listeners) {
+        notify(emission);
+      }
+    };
+
+    // Net-safe so events sent by clients (TriggerServerEvent) are observed too
+    onNet(event, handler);
+    watcher = { handler, listeners };
+    watchers.set(event, watcher);
+  }
+
+  watcher.listeners.add(listener);
+
+  return () => {
+    const current = watchers.get(event);
+    if (!current) return;
+
+    current.listeners.delete(listener);
+    if (current.listeners.size === 0) {
+      removeEventListener(event, current.handler);
+      watchers.delete(event);
+    }
+  };
+}
+
+// Stream emissions of the given events to the client as server-sent events
+export function streamBridgeEvents(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  events: string[]
+): void {
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.write(': connected\n\n');
+
+  const unsubscribers = events.map((event) =>
+    watchEvent(event, (emission) => {
+      res.write(`event: emission\ndata: ${JSON.stringify(emission)}\n\n`);
+    })
+  );
+
+  req.on('close', () => unsubscribers.forEach((unsubscribe) => unsubscribe()));
+}
@@ -0,0 +1,232 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Folder holding generated resources; defaults to the folder this resource was deployed into
+export const GENERATED_DIR = GetConvar(
+  'resource_manager_generated_dir',
+  path.dirname(GetResourcePath(GetCurrentResourceName()))
+);
+
+// Previous builds live next to the resources folder, out of the server's resource scan.
+// Layout (shared with scripts/buildHistory.ts):
+//   <builds dir>/<resource>/builds.json   { path, current, lastGood, builds: [{ id, hash, createdAt }] }
+//   <builds dir>/<resource>/<build id>/   copy of the resource folder
+const BUILDS_DIR = GetConvar(
+  'resource_manager_builds_dir',
+  path.join(path.dirname(path.dirname(GENERATED_DIR)), 'resource-builds')
+);
+
+// Number of builds kept per resource
+const KEEP_BUILDS = GetConvarInt('resource_manager_keep_builds', 5);
+
+export interface BuildInfo {
+  id: string;
+  hash: string;
+  createdAt: string;
+}
+
+export interface BuildHistory {
+  path: string;
+  current: string | null;
+  // Last build verified to start without errors
+  lastGood?: string | null;
+  builds: BuildInfo[];
+}
+
+export class RollbackError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number
+  ) {
+    super(message);
+    this.name = 'RollbackError';
+  }
+}
+
+// Replace `destPath` with `stagedPath` using renames so the resource folder is
+// never left half written; the previous build is removed afterwards
+export function swapDirectory(stagedPath: string, destPath: string): void {
+  const previousPath = `${destPath}.previous`;
+
+  fs.mkdirSync(path.dirname(destPath), { recursive: true });
+  fs.rmSync(previousPath, { recursive: true, force: true });
+  if (fs.existsSync(destPath)) {
+    fs.renameSync(destPath, previousPath);
+  }
+  fs.renameSync(stagedPath, destPath);
+  fs.rmSync(previousPath, { recursive: true, force: true });
+}
+
+// Function to find resource folders (containing fxmanifest.lua) directly under
+// `root` or inside `[category]` folders, returning paths relative to the root
+export function findResourceDirs(root: string, prefix = ''): string[] {
+  const found: string[] = [];
+
+  for (const entry of fs.readdirSync(path.join(root, prefix), {
+    withFileTypes: true,
+  })) {
+    if (!entry.isDirectory()) continue;
+
+    const relPath = path.join(prefix, entry.name);
+    if (fs.existsSync(path.join(root, relPath, 'fxmanifest.lua'))) {
+      found.push(relPath);
+    } else if (entry.name.startsWith('[') && entry.name.endsWith(']')) {
+      found.push(...findResourceDirs(root, relPath));
+    }
+  }
+
+  return found;
+}
+
+// Hash every file of a folder (paths and contents) in a stable order
+function hashDirectory(dirPath: string): string {
+  const hash = crypto.createHash('sha256');
+
+  const visit = (current: string) => {
+    const entries = fs
+      .readdirSync(current, { withFileTypes: true })
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        visit(fullPath);
+      } else if (entry.isFile()) {
+        hash.update(path.relative(dirPath, fullPath).replace(/\\/g, '/'));
+        hash.update(fs.readFileSync(fullPath));
+      }
+    }
+  };
+
+  visit(dirPath);
+  return hash.digest('hex');
+}
+
+function getHistoryPath(resource: string): string {
+  return path.join(BUILDS_DIR, resource, 'builds.json');
+}
+
+// Function to read the build history of a resource, or null if it has none
+export function getBuildHistory(resource: string): BuildHistory | null {
+  const historyPath = getHistoryPath(resource);
+  if (!fs.existsSync(historyPath)) return null;
+
+  return JSON.parse(fs.readFileSync(historyPath, 'utf8')) as BuildHistory;
+}
+
+function writeBuildHistory(resource: string, history: BuildHistory): void {
+  fs.writeFileSync(getHistoryPath(resource), JSON.stringify(history, null, 2));
+}
+
+// Function to find the current build of a resource when `stagedPath` holds the
+// same files, meaning deploying it again would change nothing
+export function findCurrentBuild(
+  resource: string,
+  relPath: string,
+  stagedPath: string
+): BuildInfo | null {
+  const history = getBuildHistory(resource);
+  const current = history?.builds.find((build) => build.id === history.current);
+  if (!current || !fs.existsSync(path.join(GENERATED_DIR, relPath))) {
+    return null;
+  }
+
+  return hashDirectory(stagedPath) === current.hash ? current : null;
+}
+
+// Function to snapshot a deployed resource folder as a new build, keeping the last KEEP_BUILDS.
+// `relPath` is the folder's path relative to [GENERATED], e.g. `[misc]/example`.
+export function recordBuild(resource: string, relPath: string): BuildInfo {
+  const resourcePath = path.join(GENERATED_DIR, relPath);
+  const hash = hashDirectory(resourcePath);
+  const history = getBuildHistory(resource) ?? {
+    path: relPath.replace(/\\/g, '/'),
+    current: null,
+    builds: [],
+  };
+
+  // Identical bytes are the same build; just mark it current again
+  const existing = history.builds.find((build) => build.hash === hash);
+  if (existing) {
+    history.current = existing.id;
+    writeBuildHistory(resource, history);
+    return existing;
+  }
+
+  const build: BuildInfo = {
+    id: `${new Date().toISOString().replace(/[-:.TZ]/g, '')}-${hash.slice(0, 8)}`,
+    hash,
+    createdAt: new Date().toISOString(),
+  };
+
+  fs.mkdirSync(path.join(BUILDS_DIR, resource), { recursive: true });
+  fs.cpSync(resourcePath, path.join(BUILDS_DIR, resource, build.id), {
+    recursive: true,
+  });
+
+  history.builds.push(build);
+  history.current = build.id;
+  for (const old of history.builds.splice(
+    0,
+    Math.max(0, history.builds.length - KEEP_BUILDS)
+  )) {
+    fs.rmSync(path.join(BUILDS_DIR, resource, old.id), {
+      recursive: true,
+      force: true,
+    });
+  }
+
+  writeBuildHistory(resource, history);
+  return build;
+}
+
+// Function to swap a stored build back into [GENERATED]. Without `buildId`,
+// the build deployed before the current one is restored.
+export function restoreBuild(resource: string, buildId?: string): BuildInfo {
+  const history = getBuildHistory(resource);
+  if (!history || history.builds.length === 0) {
+    throw new RollbackError(`No stored builds for resource '${resource}'`, 404);
+  }
+
+  let target: BuildInfo | undefined;
+  if (buildId) {
+    target = history.builds.find((build) => build.id === buildId);
+  } else {
+    const currentIndex = history.builds.findIndex(
+      (build) => build.id === history.current
+    );
+    target = currentIndex > 0 ? history.builds[currentIndex - 1] : undefined;
+  }
+
+  if (!target) {
+    throw new RollbackError(
+      buildId
+        ? `Build '${buildId}' not found for resource '${resource}'`
+        : `No build older than the current one for resource '${resource}'`,
+      404
+    );
+  }
+
+  // Copy first so the stored build stays available for later rollbacks
+  const stagedPath = path.join(BUILDS_DIR, resource, `${target.id}.restore`);
+  fs.rmSync(stagedPath, { recursive: true, force: true });
+  fs.cpSync(path.join(BUILDS_DIR, resource, target.id), stagedPath, {
+    recursive: true,
+  });
+  swapDirectory(stagedPath, path.join(GENERATED_DIR, history.path));
+
+  history.current = target.id;
+  writeBuildHistory(resource, history);
+  return target;
+}
+
+// Function to mark the current build of a resource as known good after it
+// started cleanly; resources without build history are ignored
+export function markBuildGood(resource: string): void {
+  const history = getBuildHistory(resource);
+  if (!history?.current || history.lastGood === history.current) return;
+
+  history.lastGood = history.current;
+  writeBuildHistory(resource, history);
+}
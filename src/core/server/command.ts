@@ -0,0 +1,69 @@
+import { onConsoleOutput } from './logs';
+
+// Comma separated list of console commands that may be run remotely.
+// Entries ending in `*` match any command starting with the given prefix.
+const COMMAND_ALLOWLIST = GetConvar(
+  'resource_manager_command_allowlist',
+  process.env.COMMAND_ALLOWLIST ||
+    'restartresource,restartallresources,startresource,stopresource,ensureresource,refreshresources'
+)
+  .split(',')
+  .map((entry) => entry.trim())
+  .filter(Boolean);
+
+// How long console output is collected after a command is queued
+const COMMAND_OUTPUT_WINDOW = 500;
+
+export interface CommandResult {
+  allowed: boolean;
+  output: string[];
+}
+
+// Command separators: the console would run whatever follows as another command
+const COMMAND_SEPARATOR_PATTERN = /[;\r\n]/;
+
+// Function to check a command line against the allowlist by its command name.
+// Chained commands and commands targeting this resource (e.g. `stopresource core`,
+// which would take the API down) are refused.
+export function isCommandAllowed(commandLine: string): boolean {
+  if (COMMAND_SEPARATOR_PATTERN.test(commandLine)) return false;
+
+  const [name, ...args] = commandLine
+    .trim()
+    .split(/\s+/)
+    .map((part) => part.toLowerCase());
+  if (!name) return false;
+
+  const self = GetCurrentResourceName().toLowerCase();
+  if (args.some((arg) => arg.replace(/^["']|["']$/g, '') === self)) {
+    return false;
+  }
+
+  return COMMAND_ALLOWLIST.some((entry) =>
+    entry.endsWith('*')
+      ? name.startsWith(entry.slice(0, -1).toLowerCase())
+      : name === entry.toLowerCase()
+  );
+}
+
+// Function to run an allowlisted console command and collect what it printed.
+// Output is best effort: anything else logged during the window is included too.
+export async function executeConsoleCommand(
+  commandLine: string
+): Promise<CommandResult> {
+  if (!isCommandAllowed(commandLine)) {
+    return { allowed: false, output: [] };
+  }
+
+  const output: string[] = [];
+  const unsubscribe = onConsoleOutput((_channel, line) => output.push(line));
+
+  try {
+    ExecuteCommand(commandLine.trim());
+    await new Promise((resolve) => setTimeout(resolve, COMMAND_OUTPUT_WINDOW));
+  } finally {
+    unsubscribe();
+  }
+
+  return { allowed: true, output };
+}
@@ -0,0 +1,93 @@
+import { getListConvar } from './restartPolicy';
+
+// Convars that may be changed through POST /convars (JSON array or comma separated).
+// Entries ending in `*` match any convar starting with the given prefix.
+const WRITABLE_CONVARS = getListConvar(
+  'resource_manager_writable_convars',
+  (process.env.WRITABLE_CONVARS || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+);
+
+// Convars set with `setr` in server.cfg; these must stay replicated to clients when changed
+const REPLICATED_CONVARS = getListConvar(
+  'resource_manager_replicated_convars',
+  []
+);
+
+// Extra convars GET /convars may report without making them writable
+const READABLE_CONVARS = getListConvar('resource_manager_readable_convars', []);
+
+// Returned by GetConvar when a convar is not set at all
+const UNSET = '__resource_manager_unset__';
+
+// Convars changed through the API since this resource started, and whether they were replicated
+const changedConvars = new Map<string, boolean>();
+
+export interface ConvarInfo {
+  name: string;
+  value: string;
+  writable: boolean;
+  replicated: boolean;
+}
+
+function matchesList(name: string, list: string[]): boolean {
+  return list.some((entry) =>
+    entry.endsWith('*') ? name.startsWith(entry.slice(0, -1)) : name === entry
+  );
+}
+
+// Function to check a convar name against the writable allowlist
+export function isConvarWritable(name: string): boolean {
+  return matchesList(name, WRITABLE_CONVARS);
+}
+
+function isConvarReplicated(name: string): boolean {
+  return changedConvars.get(name) ?? matchesList(name, REPLICATED_CONVARS);
+}
+
+// Function to list the convars the manager knows about whose name starts with `prefix`.
+// The runtime cannot enumerate convars, so only exact names from the writable and
+// readable lists plus convars changed through the API are reported.
+export function listConvars(prefix = ''): ConvarInfo[] {
+  const names = new Set(
+    [...WRITABLE_CONVARS, ...READABLE_CONVARS, ...changedConvars.keys()].filter(
+      (name) => !name.endsWith('*') && name.startsWith(prefix)
+    )
+  );
+
+  return [...names]
+    .sort()
+    .map((name) => ({ name, value: GetConvar(name, UNSET) }))
+    .filter((convar) => convar.value !== UNSET)
+    .map(({ name, value }) => ({
+      name,
+      value,
+      writable: isConvarWritable(name),
+      replicated: isConvarReplicated(name),
+    }));
+}
+
+// Function to change an allowlisted convar, returning the previous value (null when it was unset).
+// `replicated` overrides resource_manager_replicated_convars for this change.
+export function setConvar(
+  name: string,
+  value: string,
+  replicated?: boolean
+): { previous: string | null; replicated: boolean } {
+  const previous = GetConvar(name, UNSET);
+  const replicate = replicated ?? isConvarReplicated(name);
+
+  if (replicate) {
+    SetConvarReplicated(name, value);
+  } else {
+    SetConvar(name, value);
+  }
+  changedConvars.set(name, replicate);
+
+  return {
+    previous: previous === UNSET ? null : previous,
+    replicated: replicate,
+  };
+}
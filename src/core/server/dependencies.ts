@@ -0,0 +1,61 @@
+// Resource name -> names of the resources it depends on
+export type DependencyGraph = Map<string, string[]>;
+
+// Order resources so every resource comes after the resources it depends on.
+// Dependencies outside `resources` are ignored; resources caught in a cycle are
+// appended in their original order so nothing is dropped.
+export function topologicalSort(
+  resources: string[],
+  graph: DependencyGraph
+): string[] {
+  const included = new Set(resources);
+  const visited = new Set<string>();
+  const visiting = new Set<string>();
+  const order: string[] = [];
+
+  const visit = (resource: string) => {
+    if (visited.has(resource) || visiting.has(resource)) return;
+
+    visiting.add(resource);
+    for (const dependency of graph.get(resource) ?? []) {
+      if (included.has(dependency)) {
+        visit(dependency);
+      }
+    }
+    visiting.delete(resource);
+
+    visited.add(resource);
+    order.push(resource);
+  };
+
+  for (const resource of resources) {
+    visit(resource);
+  }
+
+  return order;
+}
+
+// Collect every resource that depends on `resource`, directly or transitively
+export function collectDependents(
+  resource: string,
+  graph: DependencyGraph
+): string[] {
+  const dependents = new Set<string>();
+  const queue = [resource];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const [candidate, dependencies] of graph) {
+      if (
+        dependencies.includes(current) &&
+        candidate !== resource &&
+        !dependents.has(candidate)
+      ) {
+        dependents.add(candidate);
+        queue.push(candidate);
+      }
+    }
+  }
+
+  return [...dependents];
+}
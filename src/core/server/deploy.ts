@@ -0,0 +1,155 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import type * as http from 'http';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import * as tar from 'tar';
+import {
+  type BuildInfo,
+  findCurrentBuild,
+  findResourceDirs,
+  GENERATED_DIR,
+  recordBuild,
+  swapDirectory,
+} from './builds';
+import { ensureResource, refreshResources } from './resources';
+
+// Largest archive accepted by POST /deploy
+const DEPLOY_MAX_BYTES = GetConvarInt(
+  'resource_manager_deploy_max_bytes',
+  100 * 1024 * 1024
+);
+
+// Archives are unpacked next to the resources folder so the swap is a same-disk rename
+const STAGING_DIR = path.join(
+  path.dirname(GENERATED_DIR),
+  '..',
+  '.deploy-staging'
+);
+
+export interface DeployedResource {
+  resource: string;
+  path: string;
+  build: BuildInfo;
+  // The archive held the current build unchanged, so it was neither swapped nor restarted
+  unchanged: boolean;
+  success: boolean;
+}
+
+export interface DeployResult {
+  checksum: string;
+  deployed: DeployedResource[];
+}
+
+export class DeployError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number
+  ) {
+    super(message);
+    this.name = 'DeployError';
+  }
+}
+
+// Function to buffer a request body, rejecting bodies above DEPLOY_MAX_BYTES
+export function readArchiveBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > DEPLOY_MAX_BYTES) {
+        reject(
+          new DeployError(
+            `Archive exceeds the ${DEPLOY_MAX_BYTES} byte limit`,
+            413
+          )
+        );
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+// Verify, unpack and swap a (gzipped) tar archive of built resources into
+// [GENERATED], record each as a new build, then refresh the server and ensure
+// every deployed resource. Resources identical to their current build are left
+// running untouched. Without `restart`, running resources are not restarted either
+// (e.g. when the caller reloads their NUI instead); stopped ones are still started.
+export async function deployArchive(
+  archive: Buffer,
+  expectedChecksum: string,
+  restart = true
+): Promise<DeployResult> {
+  const checksum = crypto.createHash('sha256').update(archive).digest('hex');
+  if (checksum !== expectedChecksum.toLowerCase()) {
+    throw new DeployError(
+      `Checksum mismatch: expected ${expectedChecksum}, got ${checksum}`,
+      400
+    );
+  }
+
+  const stagingPath = path.join(STAGING_DIR, crypto.randomUUID());
+  fs.mkdirSync(stagingPath, { recursive: true });
+
+  try {
+    // tar strips absolute paths and `..` segments from entries by default
+    await pipeline(Readable.from(archive), tar.x({ cwd: stagingPath }));
+
+    const resourceDirs = findResourceDirs(stagingPath);
+    if (resourceDirs.length === 0) {
+      throw new DeployError(
+        'Archive does not contain any resource with an fxmanifest.lua',
+        400
+      );
+    }
+
+    const builds = new Map<string, BuildInfo>();
+    const unchanged = new Set<string>();
+    for (const relPath of resourceDirs) {
+      const resource = path.basename(relPath);
+      const stagedPath = path.join(stagingPath, relPath);
+      const current = findCurrentBuild(resource, relPath, stagedPath);
+      if (current) {
+        builds.set(relPath, current);
+        unchanged.add(relPath);
+        continue;
+      }
+
+      swapDirectory(stagedPath, path.join(GENERATED_DIR, relPath));
+      builds.set(relPath, recordBuild(resource, relPath));
+    }
+
+    if (unchanged.size < resourceDirs.length) {
+      await refreshResources();
+    }
+
+    const deployed: DeployedResource[] = [];
+    for (const relPath of resourceDirs) {
+      const resource = path.basename(relPath);
+      const isUnchanged = unchanged.has(relPath);
+      deployed.push({
+        resource,
+        path: relPath.replace(/\\/g, '/'),
+        build: builds.get(relPath)!,
+        unchanged: isUnchanged,
+        // Restarting ourselves would drop this request; the new build loads on next start
+        success:
+          isUnchanged ||
+          resource === GetCurrentResourceName() ||
+          (!restart && GetResourceState(resource) === 'started') ||
+          (await ensureResource(resource)),
+      });
+    }
+
+    return { checksum, deployed };
+  } finally {
+    fs.rmSync(stagingPath, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,100 @@
+import { EventEmitter } from 'events';
+import type { IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+
+// Interval used to detect and drop dead WebSocket connections
+const HEARTBEAT_INTERVAL = 30000;
+
+// Event types pushed to subscribers of the event stream
+export type ManagerEventType =
+  | 'resource:started'
+  | 'resource:stopped'
+  | 'resource:restarted'
+  | 'resource:restartFailed'
+  | 'resource:nuiReloaded'
+  | 'autoReload:detected'
+  | 'job:completed';
+
+export interface ManagerEvent {
+  type: ManagerEventType;
+  timestamp: number;
+  [key: string]: unknown;
+}
+
+// In-process bus so other modules can observe the same events
+const bus = new EventEmitter();
+
+const wss = new WebSocketServer({ noServer: true });
+const clientFilters = new Map<WebSocket, Set<string> | null>();
+const aliveClients = new WeakSet<WebSocket>();
+
+// Publish an event to in-process listeners and all connected WebSocket clients
+export function emitManagerEvent(
+  type: ManagerEventType,
+  data: Record<string, unknown> = {}
+): void {
+  const event: ManagerEvent = { ...data, type, timestamp: Date.now() };
+  bus.emit('event', event);
+
+  const payload = JSON.stringify(event);
+  for (const [client, filter] of clientFilters) {
+    if (client.readyState !== WebSocket.OPEN) continue;
+    if (filter && !filter.has(type)) continue;
+    client.send(payload);
+  }
+}
+
+// Subscribe to manager events from inside the resource; returns an unsubscribe function
+export function onManagerEvent(
+  listener: (event: ManagerEvent) => void
+): () => void {
+  bus.on('event', listener);
+  return () => bus.off('event', listener);
+}
+
+// Upgrade an authenticated HTTP request to an event stream connection.
+// `types` optionally restricts the stream to a comma separated list of event types.
+export function handleEventStreamUpgrade(
+  req: IncomingMessage,
+  socket: Duplex,
+  head: Buffer,
+  types?: string
+): void {
+  wss.handleUpgrade(req, socket, head, (client) => {
+    const filter = types
+      ? new Set(
+          types
+            .split(',')
+            .map((t) => t.trim())
+            .filter(Boolean)
+        )
+      : null;
+
+    clientFilters.set(client, filter);
+    aliveClients.add(client);
+
+    client.on('pong', () => aliveClients.add(client));
+    client.on('close', () => clientFilters.delete(client));
+    client.on('error', (err) => {
+      console.error('[events] WebSocket client error:', err);
+      clientFilters.delete(client);
+    });
+
+    client.send(JSON.stringify({ type: 'connected', timestamp: Date.now() }));
+  });
+}
+
+// Ping clients periodically and terminate the ones that stopped answering
+setInterval(() => {
+  for (const client of clientFilters.keys()) {
+    if (!aliveClients.has(client)) {
+      clientFilters.delete(client);
+      client.terminate();
+      continue;
+    }
+
+    aliveClients.delete(client);
+    client.ping();
+  }
+}, HEARTBEAT_INTERVAL);
@@ -2,84 +2,134 @@
 import 'dotenv/config';
 import * as http from 'http';
 import * as url from 'url';
-import * as fs from 'fs';
-import * as path from 'path';
-
-// Simple authentication - you should use a more secure method in production
-const API_KEY = process.env.API_KEY || 'your-secure-api-key';
-
-// File watcher for auto-reload on rebuilds
-const WATCH_PATHS = ['dist'];
-const WATCH_INTERVAL = 2000; // Check every 2 seconds
-const lastModifiedTimes = new Map<string, number>();
-
-// Function to get all resource names
-function getAllResources(): string[] {
-  const resources: string[] = [];
-  const numResources = GetNumResources();
-
-  for (let i = 0; i < numResources; i++) {
-    const resourceName = GetResourceByFindIndex(i);
-    if (resourceName) {
-      resources.push(resourceName);
-    }
-  }
-
-  return resources;
+import { writeAuditEntry } from './audit';
+import {
+  applyCorsHeaders,
+  authenticate,
+  hasConfiguredTokens,
+  hasScope,
+  type TokenScope,
+} from './auth';
+import { initializeFileWatcher } from './autoReload';
+import {
+  BRIDGE_ENABLED,
+  streamBridgeEvents,
+  triggerClientEvent,
+  triggerServerEvent,
+} from './bridge';
+import { getBuildHistory, restoreBuild, RollbackError } from './builds';
+import { executeConsoleCommand } from './command';
+import { isConvarWritable, listConvars, setConvar } from './convars';
+import { deployArchive, DeployError, readArchiveBody } from './deploy';
+import { emitManagerEvent, handleEventStreamUpgrade } from './events';
+import {
+  createJob,
+  getJob,
+  type JobRequest,
+  listJobs,
+  validateJobRequest,
+} from './jobs';
+import {
+  getResourceLogs,
+  initializeLogCapture,
+  streamResourceLogs,
+} from './logs';
+import { getHealth, initializeMetrics, renderMetrics } from './metrics';
+import { dropPlayer, initializePlayerTracking, listPlayers } from './players';
+import {
+  ensureResource,
+  getAllResources,
+  getResourceDetails,
+  handlesNuiReload,
+  refreshResources,
+  reloadResourceNui,
+  restartAllResources,
+  restartResourceWithDependents,
+  startResource,
+  stopResource,
+} from './resources';
+
+// Read and parse a JSON request body; resolves to an empty object when absent
+function readJsonBody(
+  req: http.IncomingMessage
+): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch {
+        reject(new Error('Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
 }
 
-// Function to restart a specific resource
-function restartResource(resourceName: string): boolean {
-  // Check if resource exists by attempting to get its state
-  const state = GetResourceState(resourceName);
-  if (state === 'missing') {
-    return false;
-  }
+// Write a JSON response with the given status code
+function sendJson(
+  res: http.ServerResponse,
+  statusCode: number,
+  body: Record<string, unknown>
+): void {
+  res.statusCode = statusCode;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
 
+// Decode a URL path segment, returning null for malformed escape sequences
+function decodePathSegment(segment: string): string | null {
   try {
-    StopResource(resourceName);
-    StartResource(resourceName);
-    return true;
-  } catch (error) {
-    console.error(`Failed to restart resource ${resourceName}:`, error);
-    return false;
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
   }
 }
 
-// Function to restart all resources
-function restartAllResources(): {
-  success: boolean;
-  results: Record<string, boolean>;
-} {
-  const resources = getAllResources();
-  const results: Record<string, boolean> = {};
-
-  for (const resource of resources) {
-    // Skip the current resource to prevent stopping our own HTTP server
-    if (resource === GetCurrentResourceName()) {
-      results[resource] = true;
-      continue;
-    }
-
-    results[resource] = restartResource(resource);
-  }
-
-  return {
-    success: Object.values(results).every((result) => result === true),
-    results,
-  };
+// Lifecycle actions exposed as POST /<action>?resource=<name>
+const RESOURCE_ACTIONS: Record<
+  string,
+  { run: (resourceName: string) => boolean | Promise<boolean>; verb: string }
+> = {
+  '/start': { run: startResource, verb: 'start' },
+  '/stop': { run: stopResource, verb: 'stop' },
+  '/ensure': { run: ensureResource, verb: 'ensure' },
+};
+
+// Routes that change resource state require the `restart` scope
+const RESTART_ROUTES = [
+  '/restart',
+  '/start',
+  '/stop',
+  '/ensure',
+  '/refresh',
+  '/nui/reload',
+];
+
+// Determine the token scope a request needs; anything not listed is read-only
+function getRequiredScope(path: string, method: string): TokenScope {
+  if (path.startsWith('/bridge/')) return 'events';
+  // Player identifiers and IPs are personal data, not monitoring data
+  if (path === '/players' || path.startsWith('/players/')) return 'restart';
+  if (method !== 'POST') return 'read';
+  if (RESTART_ROUTES.includes(path)) return 'restart';
+  if (path === '/command' || path === '/convars') return 'command';
+  if (path === '/jobs') return 'restart';
+  if (path === '/deploy' || path === '/rollback') return 'deploy';
+  return 'read';
 }
 
 // Create HTTP server
-const server = http.createServer((req, res) => {
+const server = http.createServer(async (req, res) => {
   const parsedUrl = url.parse(req.url || '', true);
-  const path = parsedUrl.pathname;
+  const path = parsedUrl.pathname || '';
   const query = parsedUrl.query;
 
-  // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  // Set CORS headers for allowed origins
+  applyCorsHeaders(req, res);
 
   // Handle OPTIONS preflight requests
   if (req.method === 'OPTIONS') {
@@ -89,18 +139,21 @@ const server = http.createServer((req, res) => {
   }
 
   // Authenticate all requests
-  const authHeader = req.headers.authorization || '';
-  const providedKey = authHeader.replace('Bearer ', '');
-
-  if (providedKey !== API_KEY) {
-    res.statusCode = 401;
-    res.setHeader('Content-Type', 'application/json');
-    res.end(
-      JSON.stringify({
-        success: false,
-        error: 'Unauthorized: Invalid API key',
-      })
-    );
+  const token = authenticate(req, query.token as string | undefined);
+  if (!token) {
+    sendJson(res, 401, {
+      success: false,
+      error: 'Unauthorized: Invalid API key',
+    });
+    return;
+  }
+
+  const requiredScope = getRequiredScope(path, req.method || 'GET');
+  if (!hasScope(token, requiredScope)) {
+    sendJson(res, 403, {
+      success: false,
+      error: `Forbidden: token '${token.name}' lacks the '${requiredScope}' scope`,
+    });
     return;
   }
 
@@ -109,205 +162,631 @@ const server = http.createServer((req, res) => {
     res.statusCode = 200;
     res.setHeader('Content-Type', 'text/plain');
     res.end('Resource Management API\n');
+  } else if (path === '/health' && req.method === 'GET') {
+    sendJson(res, 200, { success: true, ...getHealth() });
+  } else if (path === '/metrics' && req.method === 'GET') {
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'text/plain; version=0.0.4');
+    res.end(renderMetrics());
   } else if (path === '/resources') {
     const resources = getAllResources();
-    res.statusCode = 200;
-    res.setHeader('Content-Type', 'application/json');
-    res.end(
-      JSON.stringify({
-        success: true,
-        resources,
-        count: resources.length,
-      })
-    );
+    // `?details=1` returns state and manifest metadata instead of plain names
+    const withDetails = query.details === '1' || query.details === 'true';
+    sendJson(res, 200, {
+      success: true,
+      resources: withDetails
+        ? resources.map((resource) => getResourceDetails(resource))
+        : resources,
+      count: resources.length,
+    });
+  } else if (path.startsWith('/resources/') && req.method === 'GET') {
+    const resourceName = decodePathSegment(path.slice('/resources/'.length));
+    if (resourceName === null) {
+      sendJson(res, 400, {
+        success: false,
+        error: 'Malformed resource name in path',
+      });
+      return;
+    }
+    const details = getResourceDetails(resourceName);
+
+    if (!details) {
+      sendJson(res, 404, {
+        success: false,
+        error: `Resource '${resourceName}' not found`,
+      });
+      return;
+    }
+
+    sendJson(res, 200, { success: true, resource: details });
   } else if (path === '/restart' && req.method === 'POST') {
     // Restart a specific resource
     if (query.resource) {
       const resourceName = query.resource as string;
-      const success = restartResource(resourceName);
-
-      res.statusCode = success ? 200 : 404;
-      res.setHeader('Content-Type', 'application/json');
-      res.end(
-        JSON.stringify({
-          success,
-          resource: resourceName,
-          message: success
-            ? `Resource '${resourceName}' restarted successfully`
-            : `Resource '${resourceName}' not found or failed to restart`,
-        })
-      );
+      // Dependents are restarted too unless `?cascade=0` is passed
+      const cascade = query.cascade !== '0' && query.cascade !== 'false';
+      const result = await restartResourceWithDependents(resourceName, cascade);
+
+      writeAuditEntry({
+        identity: token.name,
+        action: 'restart',
+        target: resourceName,
+        success: result.success,
+        details: { cascade, order: result.order },
+      });
+      sendJson(res, result.success ? 200 : result.order.length ? 500 : 404, {
+        success: result.success,
+        resource: resourceName,
+        message: result.success
+          ? `Resource '${resourceName}' restarted successfully`
+          : result.order.length
+            ? `Resource '${resourceName}' failed to start cleanly`
+            : `Resource '${resourceName}' not found`,
+        results: result.results,
+        failures: result.failures,
+        order: result.order,
+      });
     }
-    // Restart all resources
+    // Restart all resources; `?generatedOnly=1` limits it to [GENERATED]
     else {
-      const result = restartAllResources();
-
-      res.statusCode = 200;
-      res.setHeader('Content-Type', 'application/json');
-      res.end(
-        JSON.stringify({
-          success: result.success,
-          message: 'Resources restart operation completed',
-          results: result.results,
-        })
-      );
+      const generatedOnly =
+        query.generatedOnly === undefined
+          ? undefined
+          : query.generatedOnly === '1' || query.generatedOnly === 'true';
+      const result = await restartAllResources(generatedOnly);
+
+      writeAuditEntry({
+        identity: token.name,
+        action: 'restart-all',
+        success: result.success,
+        details: { generatedOnly, failed: Object.keys(result.failures) },
+      });
+      sendJson(res, 200, {
+        success: result.success,
+        message: 'Resources restart operation completed',
+        results: result.results,
+        failures: result.failures,
+        order: result.order,
+        skipped: result.skipped,
+      });
     }
-  } else {
-    res.statusCode = 404;
-    res.setHeader('Content-Type', 'application/json');
-    res.end(
-      JSON.stringify({
+  } else if (RESOURCE_ACTIONS[path] && req.method === 'POST') {
+    const { run, verb } = RESOURCE_ACTIONS[path];
+    const resourceName = query.resource as string | undefined;
+
+    if (!resourceName) {
+      sendJson(res, 400, {
+        success: false,
+        error: 'Missing required query parameter: resource',
+      });
+      return;
+    }
+
+    // Like `stopresource core` on /command: stopping ourselves would take the API down
+    if (resourceName === GetCurrentResourceName()) {
+      writeAuditEntry({
+        identity: token.name,
+        action: verb,
+        target: resourceName,
+        success: false,
+        details: { error: 'self' },
+      });
+      sendJson(res, 403, {
         success: false,
-        error: 'Endpoint not found',
-      })
+        error: `Refusing to ${verb} the resource manager itself`,
+      });
+      return;
+    }
+
+    const success = await run(resourceName);
+    writeAuditEntry({
+      identity: token.name,
+      action: verb,
+      target: resourceName,
+      success,
+    });
+    sendJson(res, success ? 200 : 404, {
+      success,
+      resource: resourceName,
+      state: GetResourceState(resourceName),
+      message: success
+        ? `Resource '${resourceName}' ${verb} completed successfully`
+        : `Resource '${resourceName}' not found or failed to ${verb}`,
+    });
+  } else if (path === '/nui/reload' && req.method === 'POST') {
+    const resourceName = query.resource as string | undefined;
+
+    if (!resourceName) {
+      sendJson(res, 400, {
+        success: false,
+        error: 'Missing required query parameter: resource',
+      });
+      return;
+    }
+
+    const success = reloadResourceNui(resourceName);
+    writeAuditEntry({
+      identity: token.name,
+      action: 'nui:reload',
+      target: resourceName,
+      success,
+    });
+    sendJson(res, success ? 200 : 409, {
+      success,
+      resource: resourceName,
+      message: success
+        ? `NUI reload sent to clients for '${resourceName}'`
+        : handlesNuiReload(resourceName)
+          ? `Resource '${resourceName}' is not started`
+          : `Resource '${resourceName}' does not handle NUI reloads; restart it instead`,
+    });
+  } else if (path === '/refresh' && req.method === 'POST') {
+    const added = await refreshResources();
+
+    writeAuditEntry({
+      identity: token.name,
+      action: 'refresh',
+      success: true,
+      details: { added },
+    });
+    sendJson(res, 200, {
+      success: true,
+      message: 'Resources folder rescanned',
+      added,
+      count: getAllResources().length,
+    });
+  } else if (path === '/logs' && req.method === 'GET') {
+    const resourceName = query.resource as string | undefined;
+
+    if (!resourceName) {
+      sendJson(res, 400, {
+        success: false,
+        error: 'Missing required query parameter: resource',
+      });
+      return;
+    }
+
+    const entries = getResourceLogs(
+      resourceName,
+      Number(query.since) || 0,
+      Number(query.limit) || undefined
     );
-  }
-});
+    sendJson(res, 200, {
+      success: true,
+      resource: resourceName,
+      entries,
+      count: entries.length,
+    });
+  } else if (path === '/logs/stream' && req.method === 'GET') {
+    // Live tail as server-sent events; omit `resource` to follow every resource
+    streamResourceLogs(req, res, (query.resource as string) || '*');
+  } else if (path === '/jobs' && req.method === 'POST') {
+    let body: Record<string, unknown>;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      sendJson(res, 400, { success: false, error: String(error) });
+      return;
+    }
 
-// Start the server on port 3414
-const PORT = GetConvarInt('resource_manager_port', 3414);
+    const validationError = validateJobRequest(body);
+    if (validationError) {
+      sendJson(res, 400, { success: false, error: validationError });
+      return;
+    }
 
-server.listen(PORT, () => {
-  console.log(`Resource management server running on port ${PORT}`);
+    const job = createJob(body as unknown as JobRequest);
+    writeAuditEntry({
+      identity: token.name,
+      action: `job:${job.type}`,
+      target: job.items.map((item) => item.resource).join(','),
+      success: true,
+      details: { jobId: job.id },
+    });
+    sendJson(res, 202, { success: true, jobId: job.id, job });
+  } else if (path === '/jobs' && req.method === 'GET') {
+    const jobs = listJobs();
+    sendJson(res, 200, { success: true, jobs, count: jobs.length });
+  } else if (path.startsWith('/jobs/') && req.method === 'GET') {
+    const jobId = decodePathSegment(path.slice('/jobs/'.length));
+    if (jobId === null) {
+      sendJson(res, 400, { success: false, error: 'Malformed job id in path' });
+      return;
+    }
+    const job = getJob(jobId);
 
-  // Initialize file monitoring
-  initializeFileWatcher();
-});
+    if (!job) {
+      sendJson(res, 404, {
+        success: false,
+        error: `Job '${jobId}' not found`,
+      });
+      return;
+    }
 
-server.on('error', (err) => {
-  console.error('Server error:', err);
-});
+    sendJson(res, 200, { success: true, job });
+  } else if (path === '/deploy' && req.method === 'POST') {
+    const expectedChecksum =
+      (req.headers['x-checksum-sha256'] as string | undefined) ||
+      (query.sha256 as string | undefined);
 
-// Function to recursively get all files in a directory
-function getAllFiles(dirPath: string, arrayOfFiles: string[] = []): string[] {
-  if (!fs.existsSync(dirPath)) return arrayOfFiles;
+    if (!expectedChecksum) {
+      sendJson(res, 400, {
+        success: false,
+        error: 'Missing X-Checksum-Sha256 header or sha256 query parameter',
+      });
+      return;
+    }
 
-  const files = fs.readdirSync(dirPath);
+    try {
+      // `?restart=0` leaves running resources as they are
+      const result = await deployArchive(
+        await readArchiveBody(req),
+        expectedChecksum,
+        query.restart !== '0' && query.restart !== 'false'
+      );
+      const success = result.deployed.every((resource) => resource.success);
+
+      writeAuditEntry({
+        identity: token.name,
+        action: 'deploy',
+        target: result.deployed.map((resource) => resource.resource).join(','),
+        success,
+        details: { checksum: result.checksum },
+      });
+      sendJson(res, success ? 200 : 500, { success, ...result });
+    } catch (error) {
+      writeAuditEntry({
+        identity: token.name,
+        action: 'deploy',
+        success: false,
+        details: { error: String(error) },
+      });
+      sendJson(res, error instanceof DeployError ? error.statusCode : 500, {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  } else if (path === '/builds' && req.method === 'GET') {
+    const resourceName = query.resource as string | undefined;
 
-  files.forEach((file) => {
-    const fullPath = path.join(dirPath, file);
-    if (fs.statSync(fullPath).isDirectory()) {
-      arrayOfFiles = getAllFiles(fullPath, arrayOfFiles);
-    } else {
-      arrayOfFiles.push(fullPath);
+    if (!resourceName) {
+      sendJson(res, 400, {
+        success: false,
+        error: 'Missing required query parameter: resource',
+      });
+      return;
     }
-  });
 
-  return arrayOfFiles;
-}
+    const history = getBuildHistory(resourceName);
+    sendJson(res, 200, {
+      success: true,
+      resource: resourceName,
+      current: history?.current ?? null,
+      builds: history?.builds ?? [],
+    });
+  } else if (path === '/rollback' && req.method === 'POST') {
+    const resourceName = query.resource as string | undefined;
+    const buildId = query.to as string | undefined;
 
-// Initialize file watcher to detect rebuilt resources
-function initializeFileWatcher(): void {
-  console.log(
-    `[auto-reload] Initializing file watcher for resource auto-reload`
-  );
+    if (!resourceName) {
+      sendJson(res, 400, {
+        success: false,
+        error: 'Missing required query parameter: resource',
+      });
+      return;
+    }
 
-  // First pass - record initial file timestamps
-  WATCH_PATHS.forEach((watchPath) => {
     try {
-      const files = getAllFiles(watchPath);
-      files.forEach((file) => {
-        const stats = fs.statSync(file);
-        lastModifiedTimes.set(file, stats.mtimeMs);
+      const build = restoreBuild(resourceName, buildId);
+      const success =
+        GetResourceState(resourceName) === 'started'
+          ? (await restartResourceWithDependents(resourceName)).success
+          : startResource(resourceName);
+
+      writeAuditEntry({
+        identity: token.name,
+        action: 'rollback',
+        target: resourceName,
+        success,
+        details: { build: build.id },
+      });
+      sendJson(res, success ? 200 : 500, {
+        success,
+        resource: resourceName,
+        build,
+        message: success
+          ? `Resource '${resourceName}' rolled back to build ${build.id}`
+          : `Resource '${resourceName}' rolled back to build ${build.id} but failed to restart`,
       });
     } catch (error) {
-      console.error(`[auto-reload] Error scanning ${watchPath}:`, error);
+      writeAuditEntry({
+        identity: token.name,
+        action: 'rollback',
+        target: resourceName,
+        success: false,
+        details: { error: String(error) },
+      });
+      sendJson(res, error instanceof RollbackError ? error.statusCode : 500, {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  } else if (path.startsWith('/bridge/') && !BRIDGE_ENABLED) {
+    sendJson(res, 403, {
+      success: false,
+      error: 'The event bridge is disabled in production mode',
+    });
+  } else if (path === '/bridge/trigger' && req.method === 'POST') {
+    let body: Record<string, unknown>;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      sendJson(res, 400, { success: false, error: String(error) });
+      return;
     }
-  });
 
-  // Start watching for changes
-  setInterval(() => checkForChanges(), WATCH_INTERVAL);
-  console.log(
-    `[auto-reload] File watcher started with interval: ${WATCH_INTERVAL}ms`
-  );
-}
+    const event = typeof body.event === 'string' ? body.event : '';
+    const args = Array.isArray(body.args) ? body.args : [];
+    const target = body.target;
+
+    if (!event) {
+      sendJson(res, 400, {
+        success: false,
+        error: 'Missing required body field: event',
+      });
+      return;
+    }
 
-// Check for file changes
-function checkForChanges(): void {
-  const changedResources = new Set<string>();
+    if (target !== undefined && typeof target !== 'number') {
+      sendJson(res, 400, {
+        success: false,
+        error: "'target' must be a player id (or -1 for every player)",
+      });
+      return;
+    }
 
-  WATCH_PATHS.forEach((watchPath) => {
+    // With a target the event goes to that player's client, otherwise to server handlers
+    if (target === undefined) {
+      triggerServerEvent(event, args);
+    } else {
+      triggerClientEvent(event, target, args);
+    }
+
+    writeAuditEntry({
+      identity: token.name,
+      action: 'bridge:trigger',
+      target: event,
+      success: true,
+      details: { player: target ?? null },
+    });
+    sendJson(res, 200, {
+      success: true,
+      event,
+      target: target ?? null,
+    });
+  } else if (path === '/bridge/subscribe' && req.method === 'GET') {
+    const events = ((query.events as string) || '')
+      .split(',')
+      .map((event) => event.trim())
+      .filter(Boolean);
+
+    if (events.length === 0) {
+      sendJson(res, 400, {
+        success: false,
+        error: 'Missing required query parameter: events',
+      });
+      return;
+    }
+
+    streamBridgeEvents(req, res, events);
+  } else if (path === '/players' && req.method === 'GET') {
+    const players = listPlayers();
+    sendJson(res, 200, { success: true, players, count: players.length });
+  } else if (/^\/players\/[^/]+\/drop$/.test(path) && req.method === 'POST') {
+    const playerId = decodePathSegment(path.split('/')[2]);
+    if (playerId === null) {
+      sendJson(res, 400, {
+        success: false,
+        error: 'Malformed player id in path',
+      });
+      return;
+    }
+
+    let body: Record<string, unknown>;
     try {
-      const files = getAllFiles(watchPath);
-
-      // Check for new or modified files
-      files.forEach((file) => {
-        try {
-          const stats = fs.statSync(file);
-          const lastModified = lastModifiedTimes.get(file) || 0;
-
-          if (stats.mtimeMs > lastModified) {
-            // File was modified
-            lastModifiedTimes.set(file, stats.mtimeMs);
-
-            // Determine resource name from path
-            const relativePath = path.relative(watchPath, file);
-            const resourceDir = relativePath.split(path.sep)[0];
-
-            if (resourceDir && resourceDir !== 'scripts') {
-              changedResources.add(resourceDir);
-              console.log(
-                `[auto-reload] Detected change in resource: ${resourceDir}`
-              );
-            }
-          }
-        } catch (error) {
-          console.error(`[auto-reload] Error checking file ${file}:`, error);
-          // File might have been deleted or is inaccessible
-        }
-      });
-
-      // Handle deleted files (they won't be in the new list)
-      for (const [existingFile] of lastModifiedTimes) {
-        if (
-          !files.includes(existingFile) &&
-          fs.existsSync(path.dirname(existingFile))
-        ) {
-          // File was deleted
-          const relativePath = path.relative(watchPath, existingFile);
-          const resourceDir = relativePath.split(path.sep)[0];
-
-          if (resourceDir && resourceDir !== 'scripts') {
-            changedResources.add(resourceDir);
-            console.log(
-              `[auto-reload] Detected deleted file in resource: ${resourceDir}`
-            );
-          }
-
-          lastModifiedTimes.delete(existingFile);
-        }
-      }
+      body = await readJsonBody(req);
     } catch (error) {
-      console.error(
-        `[auto-reload] Error checking ${watchPath} for changes:`,
-        error
-      );
+      sendJson(res, 400, { success: false, error: String(error) });
+      return;
     }
-  });
 
-  // Restart changed resources
-  if (changedResources.size > 0) {
-    console.log(
-      `[auto-reload] Restarting ${changedResources.size} changed resources...`
+    const reason =
+      typeof body.reason === 'string' && body.reason
+        ? body.reason
+        : 'Disconnected by an administrator';
+    const playerName = GetPlayerName(playerId);
+    const success = dropPlayer(playerId, reason);
+
+    writeAuditEntry({
+      identity: token.name,
+      action: 'player:drop',
+      target: playerId,
+      success,
+      details: { name: playerName, reason },
+    });
+    sendJson(res, success ? 200 : 404, {
+      success,
+      player: playerId,
+      message: success
+        ? `Player ${playerId} dropped`
+        : `Player ${playerId} is not connected`,
+    });
+  } else if (path === '/convars' && req.method === 'GET') {
+    const convars = listConvars((query.prefix as string) || '');
+    sendJson(res, 200, { success: true, convars, count: convars.length });
+  } else if (path === '/convars' && req.method === 'POST') {
+    let body: Record<string, unknown>;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      sendJson(res, 400, { success: false, error: String(error) });
+      return;
+    }
+
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || body.value === undefined || body.value === null) {
+      sendJson(res, 400, {
+        success: false,
+        error: 'Missing required body fields: name, value',
+      });
+      return;
+    }
+
+    const value = String(body.value);
+    if (!isConvarWritable(name)) {
+      writeAuditEntry({
+        identity: token.name,
+        action: 'convar:set',
+        target: name,
+        success: false,
+        details: { value },
+      });
+      sendJson(res, 403, {
+        success: false,
+        error: `Convar not writable: ${name}`,
+      });
+      return;
+    }
+
+    const { previous, replicated } = setConvar(
+      name,
+      value,
+      typeof body.replicated === 'boolean' ? body.replicated : undefined
     );
+    writeAuditEntry({
+      identity: token.name,
+      action: 'convar:set',
+      target: name,
+      success: true,
+      details: { previous, value, replicated },
+    });
+    sendJson(res, 200, {
+      success: true,
+      name,
+      value,
+      previous,
+      replicated,
+    });
+  } else if (path === '/command' && req.method === 'POST') {
+    let body: Record<string, unknown>;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      sendJson(res, 400, { success: false, error: String(error) });
+      return;
+    }
 
-    for (const resource of changedResources) {
-      if (resource === GetCurrentResourceName()) continue;
+    const command = typeof body.command === 'string' ? body.command : '';
+    if (!command.trim()) {
+      sendJson(res, 400, {
+        success: false,
+        error: 'Missing required body field: command',
+      });
+      return;
+    }
 
-      const success = restartResource(resource);
-      console.log(
-        `[auto-reload] Resource '${resource}' restart ${
-          success ? 'successful' : 'failed'
-        }`
-      );
+    const result = await executeConsoleCommand(command);
+    writeAuditEntry({
+      identity: token.name,
+      action: 'command',
+      target: command,
+      success: result.allowed,
+    });
+
+    if (!result.allowed) {
+      sendJson(res, 403, {
+        success: false,
+        error: `Command not allowed: ${command}`,
+      });
+      return;
     }
+
+    sendJson(res, 200, {
+      success: true,
+      command,
+      output: result.output,
+    });
+  } else {
+    sendJson(res, 404, {
+      success: false,
+      error: 'Endpoint not found',
+    });
   }
+});
+
+// Start the server on port 3414
+const PORT = GetConvarInt('resource_manager_port', 3414);
+
+// Start capturing console output and metrics before anything restarts
+initializeLogCapture();
+initializeMetrics();
+initializePlayerTracking();
+
+if (hasConfiguredTokens()) {
+  server.listen(PORT, () => {
+    console.log(`Resource management server running on port ${PORT}`);
+
+    // Initialize file monitoring
+    initializeFileWatcher();
+  });
+} else {
+  console.error(
+    'Resource management server not started: no API tokens configured. ' +
+      'Set API_KEY or define tokens in resource_manager_tokens(.json) and replace the default key.'
+  );
 }
 
+server.on('error', (err) => {
+  console.error('Server error:', err);
+});
+
+// Upgrade requests to /events into the WebSocket event stream
+server.on('upgrade', (req, socket, head) => {
+  const parsedUrl = url.parse(req.url || '', true);
+
+  if (parsedUrl.pathname !== '/events') {
+    socket.destroy();
+    return;
+  }
+
+  const token = authenticate(req, parsedUrl.query.token as string | undefined);
+  if (!token || !hasScope(token, 'read')) {
+    socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+    socket.destroy();
+    return;
+  }
+
+  handleEventStreamUpgrade(
+    req,
+    socket,
+    head,
+    parsedUrl.query.types as string | undefined
+  );
+});
+
+// Forward resource state changes to the event stream
+on('onResourceStart', (resourceName: string) => {
+  emitManagerEvent('resource:started', { resource: resourceName });
+});
+
+on('onResourceStop', (resourceName: string) => {
+  emitManagerEvent('resource:stopped', { resource: resourceName });
+});
+
 // Register command to restart resources from the server console
 RegisterCommand(
   'restartresource',
-  (source: number, args: string[]) => {
+  async (source: number, args: string[]) => {
     if (source !== 0) {
       // Only allow this command from the server console
       return;
@@ -319,12 +798,76 @@ RegisterCommand(
       return;
     }
 
-    const success = restartResource(resourceName);
+    const result = await restartResourceWithDependents(resourceName);
     console.log(
-      success
+      result.success
         ? `Resource '${resourceName}' restarted successfully`
         : `Resource '${resourceName}' not found or failed to restart`
     );
+    for (const [resource, failure] of Object.entries(result.failures)) {
+      failure.errors.forEach((error) => console.log(`[${resource}] ${error}`));
+      if (failure.restoredBuild) {
+        console.log(`Restored build ${failure.restoredBuild} of ${resource}`);
+      }
+    }
+    if (result.order.length > 1) {
+      console.log(`Restart order: ${result.order.join(' -> ')}`);
+    }
+  },
+  true
+);
+
+// Register start/stop/ensure commands mirroring the HTTP lifecycle routes
+const CONSOLE_ACTIONS: Record<
+  string,
+  { run: (resourceName: string) => boolean | Promise<boolean>; verb: string }
+> = {
+  startresource: { run: startResource, verb: 'started' },
+  stopresource: { run: stopResource, verb: 'stopped' },
+  ensureresource: { run: ensureResource, verb: 'ensured' },
+};
+
+for (const [command, { run, verb }] of Object.entries(CONSOLE_ACTIONS)) {
+  RegisterCommand(
+    command,
+    async (source: number, args: string[]) => {
+      if (source !== 0) {
+        // Only allow this command from the server console
+        return;
+      }
+
+      const resourceName = args[0];
+      if (!resourceName) {
+        console.log(`Usage: ${command} [resourceName]`);
+        return;
+      }
+
+      const success = await run(resourceName);
+      console.log(
+        success
+          ? `Resource '${resourceName}' ${verb} successfully`
+          : `Resource '${resourceName}' not found or could not be ${verb}`
+      );
+    },
+    true
+  );
+}
+
+// Register command to rescan the resources folder from the server console
+RegisterCommand(
+  'refreshresources',
+  async (source: number) => {
+    if (source !== 0) {
+      // Only allow this command from the server console
+      return;
+    }
+
+    const added = await refreshResources();
+    console.log(
+      added.length > 0
+        ? `Discovered ${added.length} new resources: ${added.join(', ')}`
+        : 'No new resources discovered'
+    );
   },
   true
 );
@@ -332,18 +875,24 @@ RegisterCommand(
 // Register command to restart all resources from the server console
 RegisterCommand(
   'restartallresources',
-  (source: number) => {
+  async (source: number, args: string[]) => {
     if (source !== 0) {
       // Only allow this command from the server console
       return;
     }
 
-    const result = restartAllResources();
+    // `restartallresources generated` restarts only [GENERATED] resources
+    const result = await restartAllResources(
+      args[0] === 'generated' ? true : undefined
+    );
     console.log(
       result.success
         ? 'All resources restarted successfully'
         : 'Some resources failed to restart'
     );
+    console.log(
+      `Skipped ${Object.keys(result.skipped).length} protected or excluded resources`
+    );
 
     // Log details of any failed restarts
     Object.entries(result.results)
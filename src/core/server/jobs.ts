@@ -0,0 +1,169 @@
+import * as crypto from 'crypto';
+import { topologicalSort } from './dependencies';
+import { emitManagerEvent } from './events';
+import type { SkipReason } from './restartPolicy';
+import {
+  getDependencyGraph,
+  planRestartAll,
+  restartResourceVerified,
+} from './resources';
+
+// Number of finished jobs kept for GET /jobs/:id
+const JOB_HISTORY_SIZE = 50;
+
+export type JobType = 'restart' | 'restart-all';
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface JobItem {
+  resource: string;
+  status: 'pending' | 'running' | 'succeeded' | 'failed';
+  durationMs?: number;
+  // Script errors logged while a failed item was starting
+  errors?: string[];
+  restoredBuild?: string;
+}
+
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  items: JobItem[];
+  skipped: Record<string, SkipReason>;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface JobRequest {
+  type: JobType;
+  resources?: string[];
+  generatedOnly?: boolean;
+}
+
+const jobs = new Map<string, Job>();
+
+// Drop the oldest finished jobs once the history is full
+function pruneJobs(): void {
+  const finished = [...jobs.values()].filter(
+    (job) => job.status === 'completed' || job.status === 'failed'
+  );
+
+  for (const job of finished.slice(0, finished.length - JOB_HISTORY_SIZE)) {
+    jobs.delete(job.id);
+  }
+}
+
+// Resolve the resources a job acts on, in dependency order, and those it skips
+function planJob(request: JobRequest): {
+  order: string[];
+  skipped: Record<string, SkipReason>;
+} {
+  if (request.type === 'restart-all') {
+    return planRestartAll(request.generatedOnly);
+  }
+
+  // Like restart-all, never restart ourselves: it would stop the server running the job
+  const self = GetCurrentResourceName();
+  const resources = request.resources ?? [];
+  return {
+    order: topologicalSort(
+      resources.filter((resource) => resource !== self),
+      getDependencyGraph()
+    ),
+    skipped: resources.includes(self) ? { [self]: 'self' } : {},
+  };
+}
+
+// Restart one item per server tick so the server keeps running between them
+async function runJob(job: Job): Promise<void> {
+  job.status = 'running';
+  job.startedAt = Date.now();
+
+  for (const item of job.items) {
+    await new Promise((resolve) => setImmediate(resolve));
+
+    item.status = 'running';
+    const startedAt = Date.now();
+    const { success, errors, restoredBuild } = await restartResourceVerified(
+      item.resource
+    );
+    item.durationMs = Date.now() - startedAt;
+    item.status = success ? 'succeeded' : 'failed';
+    if (!success) {
+      item.errors = errors;
+      if (restoredBuild) item.restoredBuild = restoredBuild;
+    }
+  }
+
+  job.finishedAt = Date.now();
+  job.status = job.items.every((item) => item.status === 'succeeded')
+    ? 'completed'
+    : 'failed';
+
+  emitManagerEvent('job:completed', {
+    jobId: job.id,
+    jobType: job.type,
+    status: job.status,
+    durationMs: job.finishedAt - job.startedAt,
+  });
+  pruneJobs();
+}
+
+// Validate a job request, returning an error message when it cannot be run
+export function validateJobRequest(
+  body: Record<string, unknown>
+): string | null {
+  if (body.type !== 'restart' && body.type !== 'restart-all') {
+    return "Job type must be 'restart' or 'restart-all'";
+  }
+
+  if (
+    body.type === 'restart' &&
+    (!Array.isArray(body.resources) ||
+      body.resources.length === 0 ||
+      !body.resources.every((resource) => typeof resource === 'string'))
+  ) {
+    return "Job type 'restart' requires a non-empty 'resources' array";
+  }
+
+  if (
+    body.generatedOnly !== undefined &&
+    typeof body.generatedOnly !== 'boolean'
+  ) {
+    return "'generatedOnly' must be a boolean";
+  }
+
+  return null;
+}
+
+// Queue a batch operation and start running it in the background
+export function createJob(request: JobRequest): Job {
+  const { order, skipped } = planJob(request);
+  const job: Job = {
+    id: crypto.randomUUID(),
+    type: request.type,
+    status: 'pending',
+    items: order.map((resource) => ({ resource, status: 'pending' })),
+    skipped,
+    createdAt: Date.now(),
+  };
+
+  jobs.set(job.id, job);
+  runJob(job).catch((error) => {
+    console.error(`[jobs] Job ${job.id} crashed:`, error);
+    job.status = 'failed';
+    job.finishedAt = Date.now();
+  });
+
+  return job;
+}
+
+// Function to look up a job by id
+export function getJob(id: string): Job | undefined {
+  return jobs.get(id);
+}
+
+// Function to list every known job, newest first
+export function listJobs(): Job[] {
+  return [...jobs.values()].reverse();
+}
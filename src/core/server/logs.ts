@@ -0,0 +1,154 @@
+import type * as http from 'http';
+
+// Number of console lines kept per resource
+const LOG_BUFFER_SIZE = GetConvarInt('resource_manager_log_buffer', 500);
+
+// Strips FiveM colour codes (^0-^9) and ANSI escape sequences from console output
+// eslint-disable-next-line no-control-regex
+const COLOR_CODE_PATTERN = /\^[0-9]|\x1b\[[0-9;]*m/g;
+
+// Matches resource references such as `@example/server/server.js:12` in stack traces
+const RESOURCE_REF_PATTERN = /@([^/\s:]+)\//;
+
+// Loose match used only to highlight lines as `error` in log output
+const ERROR_PATTERN = /SCRIPT ERROR|error|failed|couldn't/i;
+
+// Markers of a script actually failing: runtime errors, scripts that failed to
+// load, and stack frames pointing into a resource (`> fn (@res/server.js:12)`)
+const SCRIPT_ERROR_PATTERN =
+  /SCRIPT ERROR|Error loading script|^\s*(?:>|at)\s.*@[^/\s:]+\/\S+:\d+/;
+
+export interface LogEntry {
+  resource: string;
+  channel: string;
+  level: 'info' | 'error';
+  message: string;
+  timestamp: number;
+}
+
+const buffers = new Map<string, LogEntry[]>();
+const followers = new Map<string, Set<(entry: LogEntry) => void>>();
+const consoleListeners = new Set<(channel: string, line: string) => void>();
+
+// Determine which resource produced a console line, if any
+function resolveResource(channel: string, message: string): string | null {
+  if (channel.startsWith('script:')) {
+    return channel.slice('script:'.length);
+  }
+
+  const match = message.match(RESOURCE_REF_PATTERN);
+  if (match && GetResourceState(match[1]) !== 'missing') {
+    return match[1];
+  }
+
+  return null;
+}
+
+// Whether a console line reports a script error, as opposed to merely mentioning one
+export function isScriptError(message: string): boolean {
+  return SCRIPT_ERROR_PATTERN.test(message);
+}
+
+// Store a line in the resource's ring buffer and notify followers
+function recordLine(resource: string, channel: string, message: string): void {
+  const entry: LogEntry = {
+    resource,
+    channel,
+    level: ERROR_PATTERN.test(message) ? 'error' : 'info',
+    message,
+    timestamp: Date.now(),
+  };
+
+  let buffer = buffers.get(resource);
+  if (!buffer) {
+    buffer = [];
+    buffers.set(resource, buffer);
+  }
+
+  buffer.push(entry);
+  if (buffer.length > LOG_BUFFER_SIZE) {
+    buffer.splice(0, buffer.length - LOG_BUFFER_SIZE);
+  }
+
+  for (const listener of followers.get(resource) ?? []) {
+    listener(entry);
+  }
+  for (const listener of followers.get('*') ?? []) {
+    listener(entry);
+  }
+}
+
+// Get buffered lines for a resource, optionally only those newer than `since`
+export function getResourceLogs(
+  resource: string,
+  since = 0,
+  limit = LOG_BUFFER_SIZE
+): LogEntry[] {
+  const entries = (buffers.get(resource) ?? []).filter(
+    (entry) => entry.timestamp >= since
+  );
+  return entries.slice(-limit);
+}
+
+// Register a callback for new lines of a resource ('*' for all resources)
+export function followResourceLogs(
+  resource: string,
+  listener: (entry: LogEntry) => void
+): () => void {
+  let listeners = followers.get(resource);
+  if (!listeners) {
+    listeners = new Set();
+    followers.set(resource, listeners);
+  }
+
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// Register a callback for every console line, attributed to a resource or not
+export function onConsoleOutput(
+  listener: (channel: string, line: string) => void
+): () => void {
+  consoleListeners.add(listener);
+  return () => consoleListeners.delete(listener);
+}
+
+// Stream new lines of a resource to the client as server-sent events
+export function streamResourceLogs(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  resource: string
+): void {
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.write(': connected\n\n');
+
+  const unsubscribe = followResourceLogs(resource, (entry) => {
+    res.write(`event: log\ndata: ${JSON.stringify(entry)}\n\n`);
+  });
+
+  req.on('close', unsubscribe);
+}
+
+// Capture console output and attribute it to the resource that produced it
+export function initializeLogCapture(): void {
+  RegisterConsoleListener((channel: string, message: string) => {
+    const lines = message
+      .replace(COLOR_CODE_PATTERN, '')
+      .split(/\r?\n/)
+      .filter((line) => line.trim().length > 0);
+
+    for (const line of lines) {
+      for (const listener of consoleListeners) {
+        listener(channel, line);
+      }
+
+      const resource = resolveResource(channel, line);
+      if (resource) {
+        recordLine(resource, channel, line);
+      }
+    }
+  });
+}
@@ -0,0 +1,179 @@
+import { onManagerEvent } from './events';
+import { getAllResources } from './resources';
+
+// Weight of the newest frame in the moving average of frame times
+const FRAME_TIME_SMOOTHING = 0.1;
+
+const startedAt = Date.now();
+
+const restartCounts = new Map<string, number>();
+const restartFailures = new Map<string, number>();
+const restartDurations = new Map<string, number>();
+let autoReloadDetections = 0;
+
+let lastFrameAt = 0;
+let averageFrameTime = 0;
+let maxFrameTime = 0;
+
+// Increment a per-resource counter
+function increment(counter: Map<string, number>, key: string, by = 1): void {
+  counter.set(key, (counter.get(key) ?? 0) + by);
+}
+
+// Escape a label value for the Prometheus text format
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n');
+}
+
+// Render one metric family with its HELP and TYPE headers
+function formatMetric(
+  name: string,
+  type: 'counter' | 'gauge',
+  help: string,
+  samples: Array<{ labels?: Record<string, string>; value: number }>
+): string {
+  const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+
+  for (const { labels, value } of samples) {
+    const labelText = labels
+      ? `{${Object.entries(labels)
+          .map(([key, label]) => `${key}="${escapeLabel(label)}"`)
+          .join(',')}}`
+      : '';
+    lines.push(`${name}${labelText} ${value}`);
+  }
+
+  return lines.join('\n');
+}
+
+// Count resources by their current state
+function getResourceStateCounts(): Record<string, number> {
+  const counts: Record<string, number> = {};
+
+  for (const resource of getAllResources()) {
+    const state = GetResourceState(resource);
+    counts[state] = (counts[state] ?? 0) + 1;
+  }
+
+  return counts;
+}
+
+// Seconds since the manager resource started
+export function getUptimeSeconds(): number {
+  return (Date.now() - startedAt) / 1000;
+}
+
+// Summary returned by GET /health
+export function getHealth(): Record<string, unknown> {
+  return {
+    status: 'ok',
+    uptime: getUptimeSeconds(),
+    resources: getResourceStateCounts(),
+    players: GetNumPlayerIndices(),
+    frameTimeMs: averageFrameTime,
+  };
+}
+
+// Render all metrics in the Prometheus text exposition format
+export function renderMetrics(): string {
+  const toSamples = (counter: Map<string, number>, scale = 1) =>
+    [...counter].map(([resource, value]) => ({
+      labels: { resource },
+      value: value * scale,
+    }));
+
+  const families = [
+    formatMetric(
+      'twore_uptime_seconds',
+      'gauge',
+      'Seconds since the resource manager started',
+      [{ value: getUptimeSeconds() }]
+    ),
+    formatMetric(
+      'twore_resources',
+      'gauge',
+      'Number of resources by state',
+      Object.entries(getResourceStateCounts()).map(([state, value]) => ({
+        labels: { state },
+        value,
+      }))
+    ),
+    formatMetric(
+      'twore_resource_restarts_total',
+      'counter',
+      'Successful resource restarts',
+      toSamples(restartCounts)
+    ),
+    formatMetric(
+      'twore_resource_restart_failures_total',
+      'counter',
+      'Failed resource restarts',
+      toSamples(restartFailures)
+    ),
+    formatMetric(
+      'twore_resource_restart_duration_seconds_total',
+      'counter',
+      'Total time spent restarting each resource',
+      toSamples(restartDurations, 1 / 1000)
+    ),
+    formatMetric(
+      'twore_auto_reload_detections_total',
+      'counter',
+      'Changed resources detected by the auto-reloader',
+      [{ value: autoReloadDetections }]
+    ),
+    formatMetric(
+      'twore_server_frame_time_seconds',
+      'gauge',
+      'Moving average of the server frame time',
+      [{ value: averageFrameTime / 1000 }]
+    ),
+    formatMetric(
+      'twore_server_frame_time_max_seconds',
+      'gauge',
+      'Longest server frame since the previous scrape',
+      [{ value: maxFrameTime / 1000 }]
+    ),
+    formatMetric('twore_players', 'gauge', 'Connected players', [
+      { value: GetNumPlayerIndices() },
+    ]),
+  ];
+
+  maxFrameTime = 0;
+  return `${families.join('\n')}\n`;
+}
+
+// Record restart and auto-reload events and sample the server frame time
+export function initializeMetrics(): void {
+  onManagerEvent((event) => {
+    const resource = event.resource as string;
+    const durationMs = (event.durationMs as number) ?? 0;
+
+    if (event.type === 'resource:restarted') {
+      increment(restartCounts, resource);
+      increment(restartDurations, resource, durationMs);
+    } else if (event.type === 'resource:restartFailed') {
+      increment(restartFailures, resource);
+      increment(restartDurations, resource, durationMs);
+    } else if (event.type === 'autoReload:detected') {
+      autoReloadDetections += (event.resources as string[]).length;
+    }
+  });
+
+  setTick(() => {
+    const now = performance.now();
+    if (lastFrameAt > 0) {
+      const frameTime = now - lastFrameAt;
+      averageFrameTime =
+        averageFrameTime === 0
+          ? frameTime
+          : averageFrameTime +
+            FRAME_TIME_SMOOTHING * (frameTime - averageFrameTime);
+      maxFrameTime = Math.max(maxFrameTime, frameTime);
+    }
+    lastFrameAt = now;
+  });
+}
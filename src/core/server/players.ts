@@ -0,0 +1,44 @@
+// Connection time of players who joined while this resource was running
+const connectedAt = new Map<string, number>();
+
+export interface PlayerInfo {
+  id: number;
+  name: string;
+  identifiers: string[];
+  ping: number;
+  endpoint: string;
+  connectedAt: number | null;
+}
+
+// Function to list every connected player
+export function listPlayers(): PlayerInfo[] {
+  return getPlayers().map((player) => ({
+    id: Number(player),
+    name: GetPlayerName(player),
+    identifiers: getPlayerIdentifiers(player),
+    ping: GetPlayerPing(player),
+    endpoint: GetPlayerEndpoint(player),
+    connectedAt: connectedAt.get(player) ?? null,
+  }));
+}
+
+// Function to disconnect a player with a reason; false when the player is not connected
+export function dropPlayer(playerId: string, reason: string): boolean {
+  if (!getPlayers().includes(playerId)) {
+    return false;
+  }
+
+  DropPlayer(playerId, reason);
+  return true;
+}
+
+// Track join times so GET /players can report how long players have been connected
+export function initializePlayerTracking(): void {
+  on('playerJoining', () => {
+    connectedAt.set(String(source), Date.now());
+  });
+
+  on('playerDropped', () => {
+    connectedAt.delete(String(source));
+  });
+}
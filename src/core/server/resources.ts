@@ -0,0 +1,453 @@
+import {
+  collectDependents,
+  type DependencyGraph,
+  topologicalSort,
+} from './dependencies';
+import { getBuildHistory, markBuildGood, restoreBuild } from './builds';
+import { emitManagerEvent } from './events';
+import { followResourceLogs, isScriptError } from './logs';
+import {
+  GENERATED_ONLY_BY_DEFAULT,
+  getSkipReason,
+  RESTART_FIRST,
+  type SkipReason,
+} from './restartPolicy';
+
+// Time given to the server to process a queued `refresh` command
+const REFRESH_SETTLE_DELAY = 250;
+
+// How long a restarted resource may take to reach the `started` state
+const START_TIMEOUT = GetConvarInt('resource_manager_start_timeout', 5000);
+
+// How long script errors are still attributed to a restart once the resource is started
+const START_ERROR_WINDOW = GetConvarInt(
+  'resource_manager_start_error_window',
+  500
+);
+
+// Restore the last build that started cleanly when a restart fails verification
+const RESTORE_ON_FAILURE =
+  GetConvar('resource_manager_restore_on_failure', 'false') === 'true';
+
+// Outcome of a verified restart
+export interface RestartOutcome {
+  success: boolean;
+  state: string;
+  errors: string[];
+  restoredBuild: string | null;
+}
+
+// Failed restarts as reported next to `results`, keyed by resource
+export type RestartFailures = Record<
+  string,
+  { state: string; errors: string[]; restoredBuild: string | null }
+>;
+
+// Manifest metadata and runtime state of a single resource
+export interface ResourceDetails {
+  name: string;
+  state: string;
+  path: string;
+  version: string | null;
+  author: string | null;
+  description: string | null;
+  dependencies: string[];
+  ui_page: string | null;
+  client_scripts: string[];
+  server_scripts: string[];
+  shared_scripts: string[];
+}
+
+// Read every value declared for a manifest key
+function getMetadataValues(resourceName: string, key: string): string[] {
+  const values: string[] = [];
+  const count = GetNumResourceMetadata(resourceName, key);
+
+  for (let i = 0; i < count; i++) {
+    const value = GetResourceMetadata(resourceName, key, i);
+    if (value) {
+      values.push(value);
+    }
+  }
+
+  return values;
+}
+
+// Read the first value declared for a manifest key
+function getMetadataValue(resourceName: string, key: string): string | null {
+  return getMetadataValues(resourceName, key)[0] ?? null;
+}
+
+// Function to get all resource names
+export function getAllResources(): string[] {
+  const resources: string[] = [];
+  const numResources = GetNumResources();
+
+  for (let i = 0; i < numResources; i++) {
+    const resourceName = GetResourceByFindIndex(i);
+    if (resourceName) {
+      resources.push(resourceName);
+    }
+  }
+
+  return resources;
+}
+
+// Function to get the state, path and manifest metadata of a resource
+export function getResourceDetails(
+  resourceName: string
+): ResourceDetails | null {
+  if (!resourceExists(resourceName)) {
+    return null;
+  }
+
+  return {
+    name: resourceName,
+    state: GetResourceState(resourceName),
+    path: GetResourcePath(resourceName),
+    version: getMetadataValue(resourceName, 'version'),
+    author: getMetadataValue(resourceName, 'author'),
+    description: getMetadataValue(resourceName, 'description'),
+    // fxmanifest `dependencies { ... }` entries are stored under the singular key
+    dependencies: getMetadataValues(resourceName, 'dependency'),
+    ui_page: getMetadataValue(resourceName, 'ui_page'),
+    client_scripts: getMetadataValues(resourceName, 'client_script'),
+    server_scripts: getMetadataValues(resourceName, 'server_script'),
+    shared_scripts: getMetadataValues(resourceName, 'shared_script'),
+  };
+}
+
+// Function to check whether the server knows about a resource
+export function resourceExists(resourceName: string): boolean {
+  return GetResourceState(resourceName) !== 'missing';
+}
+
+// Function to start a specific resource
+export function startResource(resourceName: string): boolean {
+  if (!resourceExists(resourceName)) {
+    return false;
+  }
+
+  if (GetResourceState(resourceName) === 'started') {
+    return true;
+  }
+
+  try {
+    return StartResource(resourceName);
+  } catch (error) {
+    console.error(`Failed to start resource ${resourceName}:`, error);
+    return false;
+  }
+}
+
+// Function to stop a specific resource
+export function stopResource(resourceName: string): boolean {
+  if (!resourceExists(resourceName)) {
+    return false;
+  }
+
+  if (GetResourceState(resourceName) === 'stopped') {
+    return true;
+  }
+
+  try {
+    return StopResource(resourceName);
+  } catch (error) {
+    console.error(`Failed to stop resource ${resourceName}:`, error);
+    return false;
+  }
+}
+
+// Wait while a resource is `starting`, resolving to the state it settled in
+// (a failed start leaves it `stopped` right away)
+async function waitForStarted(resourceName: string): Promise<string> {
+  const deadline = Date.now() + START_TIMEOUT;
+  let state = GetResourceState(resourceName);
+
+  while (state === 'starting' && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    state = GetResourceState(resourceName);
+  }
+
+  return state;
+}
+
+// Stop and start a resource, then check it reached `started` without logging script errors
+async function restartAndVerify(
+  resourceName: string
+): Promise<{ state: string; errors: string[] }> {
+  const errors: string[] = [];
+  // Subscribe first: scripts run (and fail) synchronously inside StartResource
+  const unsubscribe = followResourceLogs(resourceName, (entry) => {
+    if (isScriptError(entry.message)) errors.push(entry.message);
+  });
+
+  try {
+    StopResource(resourceName);
+    if (!StartResource(resourceName)) {
+      return { state: GetResourceState(resourceName), errors };
+    }
+
+    const state = await waitForStarted(resourceName);
+    if (state === 'started') {
+      await new Promise((resolve) => setTimeout(resolve, START_ERROR_WINDOW));
+    }
+    return { state, errors };
+  } finally {
+    unsubscribe();
+  }
+}
+
+// Function to restart a specific resource and verify it started cleanly. With
+// resource_manager_restore_on_failure, a failed resource is rolled back to its
+// last good build and started again.
+export async function restartResourceVerified(
+  resourceName: string
+): Promise<RestartOutcome> {
+  // Check if resource exists by attempting to get its state
+  if (!resourceExists(resourceName)) {
+    return {
+      success: false,
+      state: 'missing',
+      errors: [],
+      restoredBuild: null,
+    };
+  }
+
+  const startedAt = Date.now();
+  try {
+    const { state, errors } = await restartAndVerify(resourceName);
+    const success = state === 'started' && errors.length === 0;
+
+    if (success) {
+      markBuildGood(resourceName);
+      emitManagerEvent('resource:restarted', {
+        resource: resourceName,
+        durationMs: Date.now() - startedAt,
+      });
+      return { success, state, errors, restoredBuild: null };
+    }
+
+    const restoredBuild = RESTORE_ON_FAILURE
+      ? await restoreLastGoodBuild(resourceName)
+      : null;
+    emitManagerEvent('resource:restartFailed', {
+      resource: resourceName,
+      durationMs: Date.now() - startedAt,
+      error:
+        state === 'started'
+          ? `Script errors during startup: ${errors.join('; ')}`
+          : `Resource is '${state}' after restart`,
+      errors,
+      restoredBuild,
+    });
+    return { success, state, errors, restoredBuild };
+  } catch (error) {
+    console.error(`Failed to restart resource ${resourceName}:`, error);
+    emitManagerEvent('resource:restartFailed', {
+      resource: resourceName,
+      durationMs: Date.now() - startedAt,
+      error: String(error),
+    });
+    return {
+      success: false,
+      state: GetResourceState(resourceName),
+      errors: [String(error)],
+      restoredBuild: null,
+    };
+  }
+}
+
+// Swap the last good build back in and start it, returning its id when restored
+async function restoreLastGoodBuild(
+  resourceName: string
+): Promise<string | null> {
+  const history = getBuildHistory(resourceName);
+  if (!history?.lastGood || history.lastGood === history.current) {
+    return null;
+  }
+
+  try {
+    const build = restoreBuild(resourceName, history.lastGood);
+    const { state } = await restartAndVerify(resourceName);
+    console.log(
+      `Restored build ${build.id} of ${resourceName} after a failed restart (${state})`
+    );
+    return build.id;
+  } catch (error) {
+    console.error(`Failed to restore a build of ${resourceName}:`, error);
+    return null;
+  }
+}
+
+// Function to restart a specific resource, resolving to whether it started cleanly
+export async function restartResource(resourceName: string): Promise<boolean> {
+  return (await restartResourceVerified(resourceName)).success;
+}
+
+// Function to check whether a resource's NUI page reloads itself on `core:reloadNui`,
+// declared with `nui_reload 'yes'` in its fxmanifest
+export function handlesNuiReload(resourceName: string): boolean {
+  return GetResourceMetadata(resourceName, 'nui_reload', 0) === 'yes';
+}
+
+// Function to reload a started resource's NUI frame on every client without
+// restarting its scripts; the core client script forwards the event to pages
+// that handle it, so other resources must be restarted instead
+export function reloadResourceNui(resourceName: string): boolean {
+  if (
+    GetResourceState(resourceName) !== 'started' ||
+    !handlesNuiReload(resourceName)
+  ) {
+    return false;
+  }
+
+  TriggerClientEvent('core:reloadNui', -1, resourceName);
+  emitManagerEvent('resource:nuiReloaded', { resource: resourceName });
+  return true;
+}
+
+// Function to ensure a resource is running: restart it if started, start it otherwise
+export async function ensureResource(resourceName: string): Promise<boolean> {
+  if (!resourceExists(resourceName)) {
+    return false;
+  }
+
+  return GetResourceState(resourceName) === 'started'
+    ? restartResource(resourceName)
+    : startResource(resourceName);
+}
+
+// Function to rescan the resources folder, returning newly discovered resources
+export async function refreshResources(): Promise<string[]> {
+  const before = new Set(getAllResources());
+
+  // `refresh` is queued on the command buffer, so give it time to run
+  ExecuteCommand('refresh');
+  await new Promise((resolve) => setTimeout(resolve, REFRESH_SETTLE_DELAY));
+
+  return getAllResources().filter((resource) => !before.has(resource));
+}
+
+// Function to build the dependency graph of all resources from their manifests.
+// Entries such as `/server:5181` or `/onesync` are server requirements, not resources.
+export function getDependencyGraph(): DependencyGraph {
+  const graph: DependencyGraph = new Map();
+
+  for (const resource of getAllResources()) {
+    graph.set(
+      resource,
+      getMetadataValues(resource, 'dependency').filter(
+        (dependency) => !dependency.startsWith('/')
+      )
+    );
+  }
+
+  return graph;
+}
+
+// Function to restart a resource followed by its started dependents, in dependency order
+export async function restartResourceWithDependents(
+  resourceName: string,
+  cascade = true
+): Promise<{
+  success: boolean;
+  results: Record<string, boolean>;
+  failures: RestartFailures;
+  order: string[];
+}> {
+  if (!resourceExists(resourceName)) {
+    return {
+      success: false,
+      results: { [resourceName]: false },
+      failures: {},
+      order: [],
+    };
+  }
+
+  const graph = getDependencyGraph();
+  const dependents = cascade
+    ? collectDependents(resourceName, graph).filter(
+        (resource) =>
+          resource !== GetCurrentResourceName() &&
+          GetResourceState(resource) === 'started'
+      )
+    : [];
+  const order = [resourceName, ...topologicalSort(dependents, graph)];
+  const { results, failures } = await restartInOrder(order);
+
+  return {
+    success: results[resourceName],
+    results,
+    failures,
+    order,
+  };
+}
+
+// Restart resources one after another, collecting why the failed ones failed
+async function restartInOrder(
+  order: string[]
+): Promise<{ results: Record<string, boolean>; failures: RestartFailures }> {
+  const results: Record<string, boolean> = {};
+  const failures: RestartFailures = {};
+
+  for (const resource of order) {
+    const { success, state, errors, restoredBuild } =
+      await restartResourceVerified(resource);
+    results[resource] = success;
+    if (!success) {
+      failures[resource] = { state, errors, restoredBuild };
+    }
+  }
+
+  return { results, failures };
+}
+
+// Function to plan restart-all: the resources to restart, dependencies before
+// the resources that depend on them, and the resources skipped with the reason why
+export function planRestartAll(generatedOnly = GENERATED_ONLY_BY_DEFAULT): {
+  order: string[];
+  skipped: Record<string, SkipReason>;
+} {
+  const all = getAllResources();
+  // Prioritized resources go first so the sort visits them (and their dependencies) first
+  const prioritized = [
+    ...RESTART_FIRST.filter((resource) => all.includes(resource)),
+    ...all.filter((resource) => !RESTART_FIRST.includes(resource)),
+  ];
+  const order: string[] = [];
+  const skipped: Record<string, SkipReason> = {};
+
+  for (const resource of topologicalSort(prioritized, getDependencyGraph())) {
+    const reason = getSkipReason(resource, generatedOnly);
+    if (reason) {
+      skipped[resource] = reason;
+    } else {
+      order.push(resource);
+    }
+  }
+
+  return { order, skipped };
+}
+
+// Function to restart all resources except protected ones
+export async function restartAllResources(
+  generatedOnly = GENERATED_ONLY_BY_DEFAULT
+): Promise<{
+  success: boolean;
+  results: Record<string, boolean>;
+  failures: RestartFailures;
+  order: string[];
+  skipped: Record<string, SkipReason>;
+}> {
+  const { order, skipped } = planRestartAll(generatedOnly);
+  const { results, failures } = await restartInOrder(order);
+
+  return {
+    success: Object.values(results).every((result) => result === true),
+    results,
+    failures,
+    order,
+    skipped,
+  };
+}
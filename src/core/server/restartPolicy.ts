@@ -0,0 +1,78 @@
+import * as path from 'path';
+import { GENERATED_DIR } from './builds';
+
+// Resources restart-all never touches: restarting them kicks players or breaks sessions
+const DEFAULT_PROTECTED_RESOURCES = [
+  'sessionmanager',
+  'mapmanager',
+  'spawnmanager',
+  'chat',
+  'hardcap',
+  'baseevents',
+  'monitor',
+  'oxmysql',
+  'mysql-async',
+  'ghmattimysql',
+];
+
+export type SkipReason = 'self' | 'protected' | 'not-generated';
+
+// Read a resource list convar given either as a JSON array or comma separated names
+export function getListConvar(name: string, fallback: string[]): string[] {
+  const value = GetConvar(name, '').trim();
+  if (!value) return fallback;
+
+  if (value.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(value);
+      if (Array.isArray(parsed)) {
+        return parsed.filter(
+          (entry): entry is string => typeof entry === 'string'
+        );
+      }
+    } catch (error) {
+      console.error(`[restart-policy] Invalid JSON in convar ${name}:`, error);
+      return fallback;
+    }
+  }
+
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+const PROTECTED_RESOURCES = getListConvar(
+  'resource_manager_protected_resources',
+  DEFAULT_PROTECTED_RESOURCES
+);
+
+// Resources restart-all handles before any other (after their own dependencies)
+export const RESTART_FIRST = getListConvar(
+  'resource_manager_restart_first',
+  []
+);
+
+// Default restart-all mode; `generated` restarts only resources under [GENERATED]
+export const GENERATED_ONLY_BY_DEFAULT =
+  GetConvar('resource_manager_restart_all_mode', 'all') === 'generated';
+
+// Function to check whether a resource was deployed into [GENERATED]
+export function isGeneratedResource(resourceName: string): boolean {
+  const resourcePath = path.resolve(GetResourcePath(resourceName));
+  return resourcePath.startsWith(path.resolve(GENERATED_DIR) + path.sep);
+}
+
+// Function to decide whether restart-all skips a resource, and why
+export function getSkipReason(
+  resourceName: string,
+  generatedOnly: boolean
+): SkipReason | null {
+  // Skip the current resource to prevent stopping our own HTTP server
+  if (resourceName === GetCurrentResourceName()) return 'self';
+  if (PROTECTED_RESOURCES.includes(resourceName)) return 'protected';
+  if (generatedOnly && !isGeneratedResource(resourceName)) {
+    return 'not-generated';
+  }
+  return null;
+}
@@ -0,0 +1,139 @@
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import { cp, mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { exists } from './utils.js';
+
+/**
+ * Stored build of a resource.
+ * The on-disk layout is shared with the core server (src/core/server/builds.ts):
+ *   <serverDir>/resource-builds/<resource>/builds.json
+ *   <serverDir>/resource-builds/<resource>/<build id>/
+ */
+export interface BuildInfo {
+  id: string;
+  hash: string;
+  createdAt: string;
+}
+
+interface BuildHistory {
+  path: string;
+  current: string | null;
+  // Last build the server verified to start without errors
+  lastGood?: string | null;
+  builds: BuildInfo[];
+}
+
+/**
+ * Hashes every file of a directory (relative paths and contents) in a stable order
+ * @param dirPath Directory to hash
+ */
+export async function hashDirectory(dirPath: string): Promise<string> {
+  const hash = createHash('sha256');
+
+  const visit = async (current: string) => {
+    const entries = (await readdir(current, { withFileTypes: true })).sort(
+      (a, b) => a.name.localeCompare(b.name)
+    );
+
+    for (const entry of entries) {
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        await visit(fullPath);
+      } else if (entry.isFile()) {
+        hash.update(path.relative(dirPath, fullPath).replace(/\\/g, '/'));
+        hash.update(await readFile(fullPath));
+      }
+    }
+  };
+
+  await visit(dirPath);
+  return hash.digest('hex');
+}
+
+/**
+ * Snapshots a built resource into the server's build history, keeping the last `keep` builds
+ * @param serverDir The txData server directory
+ * @param resourceName Name of the resource
+ * @param relPath Path of the resource relative to [GENERATED], e.g. `[misc]/example`
+ * @param resourcePath Directory holding the built resource
+ * @param keep Number of builds to keep
+ */
+export async function recordBuild(
+  serverDir: string,
+  resourceName: string,
+  relPath: string,
+  resourcePath: string,
+  keep: number
+): Promise<BuildInfo> {
+  const resourceBuildsDir = path.join(
+    serverDir,
+    'resource-builds',
+    resourceName
+  );
+  const historyPath = path.join(resourceBuildsDir, 'builds.json');
+  const history: BuildHistory = (await exists(historyPath))
+    ? JSON.parse(await readFile(historyPath, 'utf8'))
+    : { path: relPath.replace(/\\/g, '/'), current: null, builds: [] };
+
+  const hash = await hashDirectory(resourcePath);
+
+  // Identical bytes are the same build; just mark it current again
+  let build = history.builds.find((candidate) => candidate.hash === hash);
+  if (!build) {
+    build = {
+      id: `${new Date().toISOString().replace(/[-:.TZ]/g, '')}-${hash.slice(0, 8)}`,
+      hash,
+      createdAt: new Date().toISOString(),
+    };
+
+    await mkdir(resourceBuildsDir, { recursive: true });
+    await cp(resourcePath, path.join(resourceBuildsDir, build.id), {
+      recursive: true,
+    });
+    history.builds.push(build);
+
+    const expired = history.builds.splice(
+      0,
+      Math.max(0, history.builds.length - keep)
+    );
+    for (const old of expired) {
+      await rm(path.join(resourceBuildsDir, old.id), {
+        recursive: true,
+        force: true,
+      });
+    }
+  }
+
+  history.path = relPath.replace(/\\/g, '/');
+  history.current = build.id;
+  await writeFile(historyPath, JSON.stringify(history, null, 2));
+  return build;
+}
+
+/**
+ * Finds resource directories (containing fxmanifest.lua) directly under `root`
+ * or nested inside `[category]` folders
+ * @param root Directory to search
+ * @returns Paths relative to `root`
+ */
+export async function findResourceDirs(
+  root: string,
+  prefix = ''
+): Promise<string[]> {
+  const found: string[] = [];
+
+  for (const entry of await readdir(path.join(root, prefix), {
+    withFileTypes: true,
+  })) {
+    if (!entry.isDirectory()) continue;
+
+    const relPath = path.join(prefix, entry.name);
+    if (await exists(path.join(root, relPath, 'fxmanifest.lua'))) {
+      found.push(relPath);
+    } else if (entry.name.startsWith('[') && entry.name.endsWith(']')) {
+      found.push(...(await findResourceDirs(root, relPath)));
+    }
+  }
+
+  return found;
+}
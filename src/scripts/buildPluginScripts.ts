@@ -194,6 +194,17 @@ const watch = process.argv.includes('--watch');
     }
   }
 
+  // Resources whose page handles the `core:reloadNui` message (opted in with
+  // `"metadata": { "nui_reload": "yes" }` in plugin.json) load the core client
+  // script so their NUI frame can be reloaded without restarting the resource
+  if (
+    ui_page &&
+    pluginManifest.metadata?.nui_reload === 'yes' &&
+    pluginManifest.name !== 'fivem-twore:core'
+  ) {
+    clientScripts.push('@core/client/client.js');
+  }
+
   // Combine all files that need to be included
   const files = [...jsonFilePaths, ...htmlFiles];
 
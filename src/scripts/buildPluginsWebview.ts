@@ -0,0 +1,128 @@
+#!/usr/bin/env node
+import path from 'node:path';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { discoverPlugins } from './discoverPlugins.js';
+import { createFxmanifest } from './fxmanifest.js';
+import { exec, exists } from './utils.js';
+
+const pluginBase = path.join('src', 'plugins');
+const webviewDir = path.join('src', 'webview');
+const appFile = path.join(webviewDir, 'App.tsx');
+const destDir = path.join('dist', 'webview');
+
+interface PluginPage {
+  component: string;
+  importPath: string;
+}
+
+/**
+ * Derives the component name of a plugin page from its path under src/plugins,
+ * e.g. `[misc]/example` becomes `Page_misc_example`
+ * @param relPlugin Plugin directory relative to src/plugins
+ */
+function getPageComponentName(relPlugin: string): string {
+  const parts = relPlugin
+    .split(/[\\/]/)
+    .map((part) => part.replace(/^\[(.*)\]$/, '$1').replace(/\W/g, '_'));
+  return `Page_${parts.join('_')}`;
+}
+
+/**
+ * Finds the html/Page.tsx of every plugin, sorted by component name so App.tsx
+ * only changes when pages are added, removed or moved
+ */
+async function discoverPages(): Promise<PluginPage[]> {
+  const pages: (PluginPage & { pluginDir: string })[] = [];
+  for (const pluginDir of discoverPlugins(pluginBase)) {
+    const pageFile = path.join(pluginDir, 'html', 'Page.tsx');
+    if (!(await exists(pageFile))) continue;
+
+    pages.push({
+      pluginDir,
+      component: getPageComponentName(path.relative(pluginBase, pluginDir)),
+      importPath: path.relative(webviewDir, pageFile).replace(/\\/g, '/'),
+    });
+  }
+  // Plain code point order, so the result does not depend on the locale
+  pages.sort((a, b) => (a.component < b.component ? -1 : 1));
+
+  for (let i = 1; i < pages.length; i++) {
+    if (pages[i].component === pages[i - 1].component) {
+      throw new Error(
+        `Plugins ${pages[i - 1].pluginDir} and ${pages[i].pluginDir} both map to ${pages[i].component}; rename one of them`
+      );
+    }
+  }
+  return pages;
+}
+
+/**
+ * Writes App.tsx rendering every plugin page, leaving the file untouched when nothing changed
+ * so watchers and Vite's cache are not triggered needlessly
+ * @returns Whether the file was written
+ */
+async function generateApp(pages: PluginPage[]): Promise<boolean> {
+  let content = `// Auto-generated by cli: webview:build\n`;
+  for (const { component, importPath } of pages) {
+    content += `import ${component} from '${importPath}';\n`;
+  }
+  content += `\nconst App = () => {\n  return (\n    <div className="h-dvh">\n`;
+  for (const { component } of pages) {
+    content += `      <${component} />\n`;
+  }
+  content += `    </div>\n  );\n};\n\nexport default App;\n`;
+
+  const previous = await readFile(appFile, 'utf8').catch(() => null);
+  if (previous === content) return false;
+
+  await writeFile(appFile, content, 'utf8');
+  return true;
+}
+
+/**
+ * Builds the webview resource: generates src/webview/App.tsx from every plugin's html/Page.tsx,
+ * bundles it with Vite into dist/webview/ui and writes the resource's fxmanifest.lua.
+ */
+(async () => {
+  const pages = await discoverPages();
+  const updated = await generateApp(pages);
+  console.log(
+    `${updated ? 'Generated' : 'Checked'} ${appFile} with ${pages.length} plugin pages`
+  );
+
+  await rm(destDir, { recursive: true, force: true });
+  await mkdir(destDir, { recursive: true });
+
+  // Vite's root is src/, so the output directory is relative to it
+  console.log('Building webview...');
+  await exec(
+    `npx vite build --outDir ${path.posix.join('..', destDir.replace(/\\/g, '/'), 'ui')}`
+  );
+
+  // The files list uses globs so the manifest only changes with the resource layout,
+  // which lets dev mode reload the NUI frame instead of restarting for asset-only changes
+  const originalCwd = process.cwd();
+  try {
+    process.chdir(destDir);
+    await createFxmanifest({
+      client_scripts: ['@core/client/client.js'],
+      server_scripts: [],
+      shared_scripts: [],
+      files: ['ui/index.html', 'ui/assets/**/*'],
+      dependencies: [],
+      metadata: {
+        name: 'webview',
+        description: 'NUI pages of every fivem-twore plugin',
+        // main.tsx reloads the page on `core:reloadNui`
+        nui_reload: 'yes',
+      },
+      ui_page: 'ui/index.html',
+    });
+  } finally {
+    process.chdir(originalCwd);
+  }
+  console.log(`Webview resource written to ${destDir}`);
+})().catch((error) => {
+  console.error('Webview build failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,97 @@
+type Task = () => Promise<void>;
+
+/**
+ * Runs keyed build tasks with a concurrency limit:
+ * - scheduling a key that is already queued replaces its task, so bursts of changes build once
+ * - scheduling a key while it runs queues it again, so changes made mid-build are not lost
+ * - a key never runs twice at the same time
+ * Steps that touch shared state (e.g. the dist folder) are serialized with `exclusive`.
+ */
+export class BuildScheduler {
+  private queue: string[] = [];
+  // Latest task of every key waiting to run, including running keys scheduled again
+  private pending = new Map<string, Task>();
+  private running = new Set<string>();
+  private locks = new Map<string, Promise<unknown>>();
+  private idleWaiters: (() => void)[] = [];
+
+  /**
+   * @param concurrency Maximum number of tasks running at once
+   * @param onError Called with the key and error of a task that failed
+   */
+  constructor(
+    private concurrency: number,
+    private onError: (key: string, error: unknown) => void
+  ) {}
+
+  /**
+   * Queue a task under a key, coalescing with a queued task of the same key
+   * @param key Identifies the unit being built, e.g. a plugin directory
+   * @param task Build to run
+   */
+  schedule(key: string, task: Task): void {
+    const queued = this.pending.has(key);
+    this.pending.set(key, task);
+    if (!queued && !this.running.has(key)) {
+      this.queue.push(key);
+    }
+    this.pump();
+  }
+
+  /**
+   * Whether any task is running or waiting to run
+   */
+  isBusy(): boolean {
+    return this.running.size > 0 || this.queue.length > 0;
+  }
+
+  /**
+   * Resolves once no task is running or waiting to run
+   */
+  whenIdle(): Promise<void> {
+    if (!this.isBusy()) return Promise.resolve();
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  /**
+   * Run a step after every earlier step holding the same lock has finished
+   * @param lock Name of the shared resource, e.g. `dist`
+   * @param step Step to run while holding the lock
+   * @returns The result of the step
+   */
+  exclusive<T>(lock: string, step: () => Promise<T>): Promise<T> {
+    const result = (this.locks.get(lock) ?? Promise.resolve()).then(step);
+    const released = result.catch(() => {});
+    this.locks.set(lock, released);
+    // Forget the lock once nothing else queued behind it
+    released.then(() => {
+      if (this.locks.get(lock) === released) this.locks.delete(lock);
+    });
+    return result;
+  }
+
+  // Start queued tasks while there are free slots
+  private pump() {
+    while (this.running.size < this.concurrency && this.queue.length > 0) {
+      const key = this.queue.shift()!;
+      const task = this.pending.get(key)!;
+      this.pending.delete(key);
+      this.running.add(key);
+
+      task()
+        .catch((error) => this.onError(key, error))
+        .finally(() => {
+          this.running.delete(key);
+          // Scheduled again while running: its sources changed mid-build
+          if (this.pending.has(key)) {
+            this.queue.push(key);
+          }
+          this.pump();
+
+          if (!this.isBusy()) {
+            this.idleWaiters.splice(0).forEach((resolve) => resolve());
+          }
+        });
+    }
+  }
+}
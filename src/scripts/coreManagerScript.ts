@@ -2,10 +2,106 @@
  * CoreManagerScript - Client interface for the Resource Management API
  *
  * This module provides a clean interface to interact with the resource management API,
- * allowing you to list, restart specific resources, or restart all resources on the server.
+ * allowing you to list, start, stop, ensure or restart specific resources, rescan the
+ * resources folder, or restart all resources on the server.
  */
 import 'dotenv/config';
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import axios, {
+  AxiosError,
+  AxiosInstance,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import { createHash } from 'node:crypto';
+import { readdir } from 'node:fs/promises';
+import { Readable } from 'node:stream';
+import * as tar from 'tar';
+import WebSocket from 'ws';
+
+// Errors thrown in strict mode. `status` is the HTTP status, or null when no response arrived.
+export class CoreManagerError extends Error {
+  constructor(
+    message: string,
+    public status: number | null = null,
+    public data?: unknown
+  ) {
+    super(message);
+    this.name = 'CoreManagerError';
+  }
+}
+
+// The token is missing, invalid or lacks the scope the route needs (401/403)
+export class UnauthorizedError extends CoreManagerError {
+  constructor(message: string, status: number, data?: unknown) {
+    super(message, status, data);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+// The route, resource, job or build does not exist (404)
+export class NotFoundError extends CoreManagerError {
+  constructor(message: string, data?: unknown) {
+    super(message, 404, data);
+    this.name = 'NotFoundError';
+  }
+}
+
+// No response was received: the server is down, unreachable or timed out
+export class UnreachableError extends CoreManagerError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnreachableError';
+  }
+}
+
+// The server answered with any other error status
+export class ServerError extends CoreManagerError {
+  constructor(message: string, status: number, data?: unknown) {
+    super(message, status, data);
+    this.name = 'ServerError';
+  }
+}
+
+export interface CoreManagerOptions {
+  // Throw typed errors; pass false to log them and return empty results instead (default: true)
+  strict?: boolean;
+  // Milliseconds to wait for a response before giving up; event and log streams never time out (default: 60000)
+  timeout?: number;
+  // Attempts made again after a transient failure (default: 3)
+  retries?: number;
+  // Delay before the first retry in milliseconds, doubled for each further one (default: 250)
+  retryDelay?: number;
+}
+
+// Statuses worth retrying: the server (or a proxy in front of it) is briefly unavailable
+const TRANSIENT_STATUSES = [502, 503, 504];
+
+// Longest wait between attempts to reopen a dropped event stream
+const MAX_RECONNECT_DELAY = 30000;
+
+// The request was sent but no response arrived in time
+const TIMEOUT_ERROR_CODES = ['ECONNABORTED', 'ETIMEDOUT'];
+
+// Connection errors raised before a request is sent, so even state-changing requests can be retried
+const UNSENT_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+// Read an error body delivered as a stream (`responseType: 'stream'`), parsing it as JSON when possible
+async function readStreamBody(stream: Readable): Promise<unknown> {
+  try {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk));
+    }
+    const text = Buffer.concat(chunks).toString();
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  } catch {
+    return undefined;
+  }
+}
 
 // Types for API responses
 interface ResourceListResponse {
@@ -14,30 +110,235 @@ interface ResourceListResponse {
   count: number;
 }
 
-interface RestartResourceResponse {
+// Manifest metadata and runtime state of a resource, as returned by the server
+export interface ResourceDetails {
+  name: string;
+  state: string;
+  path: string;
+  version: string | null;
+  author: string | null;
+  description: string | null;
+  dependencies: string[];
+  ui_page: string | null;
+  client_scripts: string[];
+  server_scripts: string[];
+  shared_scripts: string[];
+}
+
+interface ResourceDetailsListResponse {
+  success: boolean;
+  resources: ResourceDetails[];
+  count: number;
+}
+
+interface ResourceDetailsResponse {
   success: boolean;
+  resource: ResourceDetails;
+}
+
+// Console line captured by the server for a resource
+export interface LogEntry {
   resource: string;
+  channel: string;
+  level: 'info' | 'error';
   message: string;
+  timestamp: number;
 }
 
-interface RestartAllResourcesResponse {
+interface LogsResponse {
   success: boolean;
+  resource: string;
+  entries: LogEntry[];
+  count: number;
+}
+
+interface CommandResponse {
+  success: boolean;
+  command: string;
+  output: string[];
+}
+
+// Connected player as reported by GET /players
+export interface PlayerInfo {
+  id: number;
+  name: string;
+  identifiers: string[];
+  ping: number;
+  endpoint: string;
+  connectedAt: number | null;
+}
+
+interface PlayersResponse {
+  success: boolean;
+  players: PlayerInfo[];
+  count: number;
+}
+
+interface DropPlayerResponse {
+  success: boolean;
+  player: string;
+  message: string;
+}
+
+// Convar as reported by GET /convars
+export interface ConvarInfo {
+  name: string;
+  value: string;
+  writable: boolean;
+  replicated: boolean;
+}
+
+interface ConvarsResponse {
+  success: boolean;
+  convars: ConvarInfo[];
+  count: number;
+}
+
+interface SetConvarResponse {
+  success: boolean;
+  name: string;
+  value: string;
+  previous: string | null;
+  replicated: boolean;
+}
+
+// Why a restarted resource failed verification
+export interface RestartFailure {
+  state: string;
+  errors: string[];
+  restoredBuild: string | null;
+}
+
+interface RestartResourceResponse {
+  success: boolean;
+  resource: string;
   message: string;
   results: Record<string, boolean>;
+  failures: Record<string, RestartFailure>;
+  order: string[];
+}
+
+interface ResourceActionResponse {
+  success: boolean;
+  resource: string;
+  state: string;
+  message: string;
+}
+
+interface ReloadNuiResponse {
+  success: boolean;
+  resource: string;
+  message: string;
+}
+
+interface RefreshResourcesResponse {
+  success: boolean;
+  message: string;
+  added: string[];
+  count: number;
+}
+
+// Background batch operation as reported by GET /jobs/:id
+export interface Job {
+  id: string;
+  type: 'restart' | 'restart-all';
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  items: Array<{
+    resource: string;
+    status: 'pending' | 'running' | 'succeeded' | 'failed';
+    durationMs?: number;
+    errors?: string[];
+    restoredBuild?: string;
+  }>;
+  skipped: Record<string, 'self' | 'protected' | 'not-generated'>;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+interface JobResponse {
+  success: boolean;
+  job: Job;
+}
+
+interface DeployResponse {
+  success: boolean;
+  checksum: string;
+  deployed: Array<{
+    resource: string;
+    path: string;
+    unchanged: boolean;
+    success: boolean;
+  }>;
+}
+
+// Stored build of a resource, as recorded on deploy
+export interface BuildInfo {
+  id: string;
+  hash: string;
+  createdAt: string;
+}
+
+interface BuildsResponse {
+  success: boolean;
+  resource: string;
+  current: string | null;
+  builds: BuildInfo[];
+}
+
+interface RollbackResponse {
+  success: boolean;
+  resource: string;
+  build: BuildInfo;
+  message: string;
+}
+
+// Event observed through the event bridge
+export interface BridgeEmission {
+  event: string;
+  source: number;
+  args: unknown[];
+  timestamp: number;
+}
+
+// Event pushed by the resource manager over its /events WebSocket stream
+// Callbacks told when a server-sent event stream stops; without them failures are only logged
+export interface StreamHandlers {
+  // The stream could not be opened or broke while open (a CoreManagerError when the request failed)
+  onError?: (error: unknown) => void;
+  // The server closed the stream, e.g. because it restarted
+  onEnd?: () => void;
+}
+
+export interface ManagerEvent {
+  type: string;
+  timestamp: number;
+  resource?: string;
+  resources?: string[];
+  durationMs?: number;
+  error?: string;
+  [key: string]: unknown;
 }
 
 class CoreManager {
   private client: AxiosInstance;
   private baseUrl: string;
+  private apiKey: string;
+  private strict: boolean;
+  private retries: number;
+  private retryDelay: number;
 
   /**
    * Initialize a new CoreManager instance
    * @param baseUrl - The base URL of the resource management API
-   * @param apiKey - The API key for authentication (defaults to the one in environment variables)
+   * @param apiKey - The API token for authentication (defaults to the one in environment variables)
+   * @param options - Strict mode, timeout and retry settings; by default failures throw typed errors,
+   * pass `{ strict: false }` to log them and get empty or unsuccessful results instead
    */
   constructor(
     baseUrl: string = 'http://localhost:3414',
-    apiKey: string = process.env.API_KEY || 'your-api-key'
+    apiKey: string = process.env.API_KEY || '',
+    options: CoreManagerOptions = {}
   ) {
     if (!apiKey) {
       throw new Error(
@@ -46,13 +347,22 @@ class CoreManager {
     }
 
     this.baseUrl = baseUrl;
+    this.apiKey = apiKey;
     this.client = axios.create({
       baseURL: this.baseUrl,
       headers: {
         'Authorization': `Bearer ${apiKey}`,
         'Content-Type': 'application/json',
       },
+      timeout: options.timeout ?? 60000,
     });
+
+    this.strict = options.strict ?? true;
+    this.retries = options.retries ?? 3;
+    this.retryDelay = options.retryDelay ?? 250;
+    this.client.interceptors.response.use(undefined, (error) =>
+      this.retryOrReject(error)
+    );
   }
 
   /**
@@ -75,25 +385,98 @@ class CoreManager {
     }
   }
 
+  /**
+   * Get every resource along with its state and manifest metadata
+   * @returns Promise resolving to an array of resource details
+   */
+  async getResourcesWithDetails(): Promise<ResourceDetails[]> {
+    try {
+      const response: AxiosResponse<ResourceDetailsListResponse> =
+        await this.client.get('/resources?details=1');
+
+      if (!response.data.success) {
+        throw new Error('Failed to fetch resources');
+      }
+
+      return response.data.resources;
+    } catch (error) {
+      this.handleError('Error fetching resource details', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the state, path and manifest metadata of a specific resource
+   * @param resourceName - The name of the resource to inspect
+   * @returns Promise resolving to the resource details, or null if the resource does not exist (or on any error in lenient mode)
+   */
+  async getResourceDetails(
+    resourceName: string
+  ): Promise<ResourceDetails | null> {
+    try {
+      const response: AxiosResponse<ResourceDetailsResponse> =
+        await this.client.get(`/resources/${encodeURIComponent(resourceName)}`);
+
+      return response.data.resource;
+    } catch (error) {
+      // A missing resource is an answer, not a failure
+      if (error instanceof NotFoundError) return null;
+
+      this.handleError(
+        `Error fetching details for resource "${resourceName}"`,
+        error
+      );
+      return null;
+    }
+  }
+
   /**
    * Restart a specific resource
    * @param resourceName - The name of the resource to restart
-   * @returns Promise resolving to a success status and message
+   * @param cascade - Also restart resources that depend on it (defaults to true)
+   * @returns Promise resolving to a success status, message, the restart order used and why any resource failed to start
    */
   async restartResource(
-    resourceName: string
-  ): Promise<{ success: boolean; message: string }> {
+    resourceName: string,
+    cascade: boolean = true
+  ): Promise<{
+    success: boolean;
+    message: string;
+    results?: Record<string, boolean>;
+    failures?: Record<string, RestartFailure>;
+    order?: string[];
+  }> {
     try {
       const response: AxiosResponse<RestartResourceResponse> =
         await this.client.post(
-          `/restart?resource=${encodeURIComponent(resourceName)}`
+          `/restart?resource=${encodeURIComponent(resourceName)}${
+            cascade ? '' : '&cascade=0'
+          }`
         );
 
       return {
         success: response.data.success,
         message: response.data.message,
+        results: response.data.results,
+        failures: response.data.failures,
+        order: response.data.order,
       };
     } catch (error) {
+      // A restart that ran but failed verification is answered with a 500 listing the failures
+      if (
+        error instanceof ServerError &&
+        (error.data as RestartResourceResponse | undefined)?.failures
+      ) {
+        const data = error.data as RestartResourceResponse;
+        return {
+          success: false,
+          message: data.message,
+          results: data.results,
+          failures: data.failures,
+          order: data.order,
+        };
+      }
+
       this.handleError(`Error restarting resource "${resourceName}"`, error);
       return {
         success: false,
@@ -103,22 +486,110 @@ class CoreManager {
   }
 
   /**
-   * Restart all resources except the resource manager itself
-   * @returns Promise resolving to a success status, message, and detailed results
+   * Start a specific resource
+   * @param resourceName - The name of the resource to start
+   * @returns Promise resolving to a success status, message and resulting state
    */
-  async restartAllResources(): Promise<{
+  async startResource(
+    resourceName: string
+  ): Promise<{ success: boolean; message: string; state?: string }> {
+    return this.runResourceAction('start', resourceName);
+  }
+
+  /**
+   * Stop a specific resource
+   * @param resourceName - The name of the resource to stop
+   * @returns Promise resolving to a success status, message and resulting state
+   */
+  async stopResource(
+    resourceName: string
+  ): Promise<{ success: boolean; message: string; state?: string }> {
+    return this.runResourceAction('stop', resourceName);
+  }
+
+  /**
+   * Ensure a resource is running, restarting it if it is already started
+   * @param resourceName - The name of the resource to ensure
+   * @returns Promise resolving to a success status, message and resulting state
+   */
+  async ensureResource(
+    resourceName: string
+  ): Promise<{ success: boolean; message: string; state?: string }> {
+    return this.runResourceAction('ensure', resourceName);
+  }
+
+  /**
+   * Reload a resource's NUI frame on every client without restarting its scripts
+   * @param resourceName - The name of the resource whose UI files changed
+   * @returns Promise resolving to a success status and message
+   */
+  async reloadNui(
+    resourceName: string
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      const response: AxiosResponse<ReloadNuiResponse> = await this.client.post(
+        `/nui/reload?resource=${encodeURIComponent(resourceName)}`
+      );
+
+      return {
+        success: response.data.success,
+        message: response.data.message,
+      };
+    } catch (error) {
+      this.handleError(`Error reloading NUI of "${resourceName}"`, error);
+      return {
+        success: false,
+        message: `Failed to reload NUI of "${resourceName}"`,
+      };
+    }
+  }
+
+  /**
+   * Rescan the server resources folder for new resources
+   * @returns Promise resolving to a success status and the newly discovered resources
+   */
+  async refreshResources(): Promise<{ success: boolean; added: string[] }> {
+    try {
+      const response: AxiosResponse<RefreshResourcesResponse> =
+        await this.client.post('/refresh');
+
+      return {
+        success: response.data.success,
+        added: response.data.added,
+      };
+    } catch (error) {
+      this.handleError('Error refreshing resources', error);
+      return { success: false, added: [] };
+    }
+  }
+
+  /**
+   * Restart all resources except the resource manager itself and protected resources
+   * @param generatedOnly - Only restart resources under [GENERATED] (defaults to the server's configured mode)
+   * @returns Promise resolving to a success status, message, detailed results, restart order and skipped resources
+   */
+  async restartAllResources(generatedOnly?: boolean): Promise<{
     success: boolean;
     message: string;
     results?: Record<string, boolean>;
+    order?: string[];
+    skipped?: Job['skipped'];
   }> {
     try {
-      const response: AxiosResponse<RestartAllResourcesResponse> =
-        await this.client.post('/restart');
+      // Run as a background job so large servers don't hit request timeouts
+      const job = await this.waitForJob(
+        await this.createJob({ type: 'restart-all', generatedOnly })
+      );
+      const results = Object.fromEntries(
+        job.items.map((item) => [item.resource, item.status === 'succeeded'])
+      );
 
       return {
-        success: response.data.success,
-        message: response.data.message,
-        results: response.data.results,
+        success: job.status === 'completed',
+        message: 'Resources restart operation completed',
+        results,
+        order: job.items.map((item) => item.resource),
+        skipped: job.skipped,
       };
     } catch (error) {
       this.handleError('Error restarting all resources', error);
@@ -129,6 +600,287 @@ class CoreManager {
     }
   }
 
+  /**
+   * Queue a batch operation on the server
+   * @param request - The job type and, for 'restart', the resources to restart
+   * @returns Promise resolving to the id of the created job
+   */
+  async createJob(request: {
+    type: 'restart' | 'restart-all';
+    resources?: string[];
+    generatedOnly?: boolean;
+  }): Promise<string> {
+    const response: AxiosResponse<JobResponse> = await this.client.post(
+      '/jobs',
+      request
+    );
+
+    return response.data.job.id;
+  }
+
+  /**
+   * Get the current progress of a job
+   * @param jobId - The id returned by createJob
+   * @returns Promise resolving to the job, or null if it no longer exists (or on any error in lenient mode)
+   */
+  async getJob(jobId: string): Promise<Job | null> {
+    try {
+      const response: AxiosResponse<JobResponse> = await this.client.get(
+        `/jobs/${encodeURIComponent(jobId)}`
+      );
+
+      return response.data.job;
+    } catch (error) {
+      // Finished jobs are pruned from the server's history
+      if (error instanceof NotFoundError) return null;
+
+      this.handleError(`Error fetching job "${jobId}"`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Poll a job until it completes or fails
+   * @param jobId - The id returned by createJob
+   * @param pollInterval - Delay between polls in milliseconds
+   * @returns Promise resolving to the finished job
+   */
+  async waitForJob(jobId: string, pollInterval: number = 500): Promise<Job> {
+    for (;;) {
+      const job = await this.getJob(jobId);
+      if (!job) {
+        throw new Error(`Job "${jobId}" is no longer available`);
+      }
+
+      if (job.status === 'completed' || job.status === 'failed') {
+        return job;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, pollInterval));
+    }
+  }
+
+  /**
+   * Package built resources as a gzipped tar archive and deploy them to the server
+   * @param distDir - Directory holding the built resources (e.g. `dist`)
+   * @param entries - Resource folders relative to distDir; defaults to every folder except `scripts`
+   * @param options - `restart: false` leaves resources that are already running as they are
+   * @returns Promise resolving to a success status and the per-resource deploy results
+   */
+  async deploy(
+    distDir: string,
+    entries?: string[],
+    options: { restart?: boolean } = {}
+  ): Promise<{
+    success: boolean;
+    deployed: DeployResponse['deployed'];
+  }> {
+    try {
+      const folders =
+        entries ??
+        (await readdir(distDir, { withFileTypes: true }))
+          .filter((entry) => entry.isDirectory() && entry.name !== 'scripts')
+          .map((entry) => entry.name);
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of tar.c({ gzip: true, cwd: distDir }, folders)) {
+        chunks.push(chunk as Buffer);
+      }
+      const archive = Buffer.concat(chunks);
+      const checksum = createHash('sha256').update(archive).digest('hex');
+
+      const response: AxiosResponse<DeployResponse> = await this.client.post(
+        '/deploy',
+        archive,
+        {
+          headers: {
+            'Content-Type': 'application/gzip',
+            'X-Checksum-Sha256': checksum,
+          },
+          params: options.restart === false ? { restart: 0 } : undefined,
+          maxBodyLength: Infinity,
+        }
+      );
+
+      return {
+        success: response.data.success,
+        deployed: response.data.deployed,
+      };
+    } catch (error) {
+      this.handleError('Error deploying resources', error);
+      return { success: false, deployed: [] };
+    }
+  }
+
+  /**
+   * List the stored builds of a resource
+   * @param resourceName - The name of the resource
+   * @returns Promise resolving to the current build id and the stored builds, oldest first
+   */
+  async getBuilds(
+    resourceName: string
+  ): Promise<{ current: string | null; builds: BuildInfo[] }> {
+    try {
+      const response: AxiosResponse<BuildsResponse> = await this.client.get(
+        '/builds',
+        { params: { resource: resourceName } }
+      );
+
+      return {
+        current: response.data.current,
+        builds: response.data.builds,
+      };
+    } catch (error) {
+      this.handleError(`Error fetching builds for "${resourceName}"`, error);
+      return { current: null, builds: [] };
+    }
+  }
+
+  /**
+   * Swap a previous build of a resource back in and restart it
+   * @param resourceName - The name of the resource to roll back
+   * @param buildId - The build to restore; defaults to the build before the current one
+   * @returns Promise resolving to a success status, message and the restored build
+   */
+  async rollback(
+    resourceName: string,
+    buildId?: string
+  ): Promise<{ success: boolean; message: string; build?: BuildInfo }> {
+    try {
+      const response: AxiosResponse<RollbackResponse> = await this.client.post(
+        '/rollback',
+        null,
+        { params: { resource: resourceName, to: buildId } }
+      );
+
+      return {
+        success: response.data.success,
+        message: response.data.message,
+        build: response.data.build,
+      };
+    } catch (error) {
+      this.handleError(`Error rolling back resource "${resourceName}"`, error);
+      return {
+        success: false,
+        message: `Failed to roll back resource "${resourceName}"`,
+      };
+    }
+  }
+
+  /**
+   * Run an allowlisted console command on the server
+   * @param command - The full command line, e.g. `restartresource example`
+   * @returns Promise resolving to a success status and the console output captured
+   */
+  async executeCommand(
+    command: string
+  ): Promise<{ success: boolean; output: string[] }> {
+    try {
+      const response: AxiosResponse<CommandResponse> = await this.client.post(
+        '/command',
+        { command }
+      );
+
+      return {
+        success: response.data.success,
+        output: response.data.output,
+      };
+    } catch (error) {
+      this.handleError(`Error executing command "${command}"`, error);
+      return { success: false, output: [] };
+    }
+  }
+
+  /**
+   * Get the players currently connected to the server
+   * @returns Promise resolving to the connected players
+   */
+  async getPlayers(): Promise<PlayerInfo[]> {
+    try {
+      const response: AxiosResponse<PlayersResponse> =
+        await this.client.get('/players');
+
+      return response.data.players;
+    } catch (error) {
+      this.handleError('Error fetching players', error);
+      return [];
+    }
+  }
+
+  /**
+   * Disconnect a player from the server
+   * @param playerId - The server id of the player
+   * @param reason - Reason shown to the player
+   * @returns Promise resolving to a success status and message
+   */
+  async dropPlayer(
+    playerId: number | string,
+    reason?: string
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      const response: AxiosResponse<DropPlayerResponse> =
+        await this.client.post(
+          `/players/${encodeURIComponent(String(playerId))}/drop`,
+          { reason }
+        );
+
+      return {
+        success: response.data.success,
+        message: response.data.message,
+      };
+    } catch (error) {
+      this.handleError(`Error dropping player "${playerId}"`, error);
+      return { success: false, message: `Failed to drop player ${playerId}` };
+    }
+  }
+
+  /**
+   * Get the convars known to the resource manager
+   * @param prefix - Only return convars whose name starts with this prefix
+   * @returns Promise resolving to the matching convars
+   */
+  async getConvars(prefix?: string): Promise<ConvarInfo[]> {
+    try {
+      const response: AxiosResponse<ConvarsResponse> = await this.client.get(
+        '/convars',
+        { params: { prefix } }
+      );
+
+      return response.data.convars;
+    } catch (error) {
+      this.handleError('Error fetching convars', error);
+      return [];
+    }
+  }
+
+  /**
+   * Change an allowlisted convar on the server
+   * @param name - The convar name
+   * @param value - The new value
+   * @param replicated - Force (or prevent) replication to clients; defaults to the server's configuration
+   * @returns Promise resolving to a success status and the previous value
+   */
+  async setConvar(
+    name: string,
+    value: string | number | boolean,
+    replicated?: boolean
+  ): Promise<{ success: boolean; previous: string | null }> {
+    try {
+      const response: AxiosResponse<SetConvarResponse> = await this.client.post(
+        '/convars',
+        { name, value: String(value), replicated }
+      );
+
+      return {
+        success: response.data.success,
+        previous: response.data.previous,
+      };
+    } catch (error) {
+      this.handleError(`Error setting convar "${name}"`, error);
+      return { success: false, previous: null };
+    }
+  }
+
   /**
    * Utility method to check if a specific resource exists
    * @param resourceName - The name of the resource to check
@@ -148,58 +900,366 @@ class CoreManager {
   }
 
   /**
-   * Handle errors from API requests
+   * Get the console lines captured for a resource
+   * @param resourceName - The name of the resource
+   * @param since - Only return lines logged at or after this timestamp (ms)
+   * @param limit - Maximum number of lines to return
+   * @returns Promise resolving to the captured log entries
+   */
+  async getLogs(
+    resourceName: string,
+    since?: number,
+    limit?: number
+  ): Promise<LogEntry[]> {
+    try {
+      const response: AxiosResponse<LogsResponse> = await this.client.get(
+        '/logs',
+        { params: { resource: resourceName, since, limit } }
+      );
+
+      return response.data.entries;
+    } catch (error) {
+      this.handleError(`Error fetching logs for "${resourceName}"`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Follow the console output of a resource as it is logged
+   * @param resourceName - The resource to follow, or '*' for every resource
+   * @param onEntry - Callback invoked for every new log entry
+   * @param handlers - Callbacks invoked when the stream fails or the server closes it
+   * @returns A function that stops following
+   */
+  followLogs(
+    resourceName: string,
+    onEntry: (entry: LogEntry) => void,
+    handlers: StreamHandlers = {}
+  ): () => void {
+    return this.streamServerSentEvents<LogEntry>(
+      '/logs/stream',
+      { resource: resourceName },
+      onEntry,
+      `Error following logs for "${resourceName}"`,
+      handlers
+    );
+  }
+
+  /**
+   * Fire a server event, or a client event for one player, through the event bridge
+   * @param event - The event name
+   * @param args - Arguments passed to the event handlers
+   * @param target - Player id to send a client event to (-1 for every player); omit for a server event
+   * @returns Promise resolving to a success status
+   */
+  async triggerEvent(
+    event: string,
+    args: unknown[] = [],
+    target?: number
+  ): Promise<boolean> {
+    try {
+      const response: AxiosResponse<{ success: boolean }> =
+        await this.client.post('/bridge/trigger', { event, args, target });
+
+      return response.data.success;
+    } catch (error) {
+      this.handleError(`Error triggering event "${event}"`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Observe emissions of server events through the event bridge
+   * @param events - The event names to observe
+   * @param onEmission - Callback invoked every time one of the events fires
+   * @param handlers - Callbacks invoked when the stream fails or the server closes it
+   * @returns A function that stops observing
+   */
+  observeEvents(
+    events: string[],
+    onEmission: (emission: BridgeEmission) => void,
+    handlers: StreamHandlers = {}
+  ): () => void {
+    return this.streamServerSentEvents<BridgeEmission>(
+      '/bridge/subscribe',
+      { events: events.join(',') },
+      onEmission,
+      `Error observing events ${events.join(', ')}`,
+      handlers
+    );
+  }
+
+  /**
+   * Subscribe to the live event stream of the resource manager. When the stream drops
+   * (e.g. the server restarts), it is reopened with exponential backoff.
+   * @param onEvent - Callback invoked for every event received
+   * @param types - Optional list of event types to receive (defaults to all)
+   * @returns A function that closes the subscription
+   */
+  subscribe(
+    onEvent: (event: ManagerEvent) => void,
+    types: string[] = []
+  ): () => void {
+    const wsUrl = new URL('/events', this.baseUrl);
+    wsUrl.protocol = wsUrl.protocol === 'https:' ? 'wss:' : 'ws:';
+    if (types.length > 0) {
+      wsUrl.searchParams.set('types', types.join(','));
+    }
+
+    let socket: WebSocket;
+    let reconnectTimer: NodeJS.Timeout | undefined;
+    let attempt = 0;
+    let closed = false;
+
+    const connect = () => {
+      socket = new WebSocket(wsUrl.toString(), {
+        headers: { Authorization: `Bearer ${this.apiKey}` },
+      });
+
+      socket.on('open', () => {
+        if (attempt > 0) console.log('Event stream reconnected');
+        attempt = 0;
+      });
+      socket.on('message', (data) => {
+        try {
+          onEvent(JSON.parse(data.toString()) as ManagerEvent);
+        } catch (error) {
+          this.logError('Error parsing event from server', error);
+        }
+      });
+      socket.on('error', (error) => {
+        this.logError('Error in event stream', error);
+      });
+      socket.on('close', () => {
+        if (closed) return;
+
+        const delay = Math.min(
+          this.retryDelay * 2 ** attempt++,
+          MAX_RECONNECT_DELAY
+        );
+        console.error(`Event stream closed, reconnecting in ${delay}ms`);
+        reconnectTimer = setTimeout(connect, delay);
+      });
+    };
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket.close();
+    };
+  }
+
+  /**
+   * Run a single-resource lifecycle route (start, stop or ensure)
+   * @param action - The route to call
+   * @param resourceName - The name of the resource to act on
+   */
+  private async runResourceAction(
+    action: 'start' | 'stop' | 'ensure',
+    resourceName: string
+  ): Promise<{ success: boolean; message: string; state?: string }> {
+    try {
+      const response: AxiosResponse<ResourceActionResponse> =
+        await this.client.post(
+          `/${action}?resource=${encodeURIComponent(resourceName)}`
+        );
+
+      return {
+        success: response.data.success,
+        message: response.data.message,
+        state: response.data.state,
+      };
+    } catch (error) {
+      this.handleError(`Error running ${action} on "${resourceName}"`, error);
+      return {
+        success: false,
+        message: `Failed to ${action} resource "${resourceName}"`,
+      };
+    }
+  }
+
+  /**
+   * Open a server-sent event stream and pass every parsed `data:` payload to a callback
+   * @param path - The streaming route
+   * @param params - Query parameters for the route
+   * @param onData - Callback invoked with each parsed payload
+   * @param errorMessage - Context message used when the stream or an event fails
+   * @param handlers - Callbacks invoked when the stream fails or the server closes it
+   * @returns A function that closes the stream
+   */
+  private streamServerSentEvents<T>(
+    path: string,
+    params: Record<string, string>,
+    onData: (data: T) => void,
+    errorMessage: string,
+    { onError, onEnd }: StreamHandlers
+  ): () => void {
+    const controller = new AbortController();
+    const reportError = (error: unknown) => {
+      if (onError) {
+        onError(error);
+      } else {
+        this.logError(errorMessage, error);
+      }
+    };
+
+    this.client
+      .get(path, {
+        params,
+        responseType: 'stream',
+        // Streams stay open until closed, however long no event arrives
+        timeout: 0,
+        signal: controller.signal,
+      })
+      .then((response) => {
+        let buffered = '';
+        response.data.on('data', (chunk: Buffer) => {
+          buffered += chunk.toString();
+          const events = buffered.split('\n\n');
+          buffered = events.pop() ?? '';
+
+          for (const event of events) {
+            const dataLine = event
+              .split('\n')
+              .find((line) => line.startsWith('data: '));
+            if (!dataLine) continue;
+
+            // One bad event must not end the stream
+            try {
+              onData(JSON.parse(dataLine.slice('data: '.length)) as T);
+            } catch (error) {
+              this.logError(errorMessage, error);
+            }
+          }
+        });
+        // Closing it ourselves is not worth reporting
+        response.data.on('error', (error: Error) => {
+          if (!controller.signal.aborted) reportError(error);
+        });
+        response.data.on('end', () => {
+          if (!controller.signal.aborted) onEnd?.();
+        });
+      })
+      .catch((error) => {
+        if (!axios.isCancel(error)) {
+          reportError(error);
+        }
+      });
+
+    return () => controller.abort();
+  }
+
+  /**
+   * Retry transient failures with exponential backoff, then reject with a typed error
+   * @param error - The error raised by the request
+   */
+  private async retryOrReject(error: unknown): Promise<AxiosResponse> {
+    // Aborted streams reach here too and must surface as cancellations
+    if (!axios.isAxiosError(error) || error.code === AxiosError.ERR_CANCELED) {
+      throw error;
+    }
+
+    const config = error.config as
+      (InternalAxiosRequestConfig & { retryCount?: number }) | undefined;
+    const attempt = config?.retryCount ?? 0;
+    if (config && attempt < this.retries && this.isTransient(error)) {
+      config.retryCount = attempt + 1;
+      await new Promise((resolve) =>
+        setTimeout(resolve, this.retryDelay * 2 ** attempt)
+      );
+      return this.client.request(config);
+    }
+
+    // Streamed requests get their error body as a socket stream; read it so it can be reported
+    if (error.response?.data instanceof Readable) {
+      error.response.data = await readStreamBody(error.response.data);
+    }
+
+    throw this.toTypedError(error);
+  }
+
+  /**
+   * Decide whether a failed request may be sent again. Requests that change state are
+   * only retried when they cannot have reached the server.
+   * @param error - The error raised by the request
+   */
+  private isTransient(error: AxiosError): boolean {
+    if (UNSENT_ERROR_CODES.includes(error.code ?? '')) {
+      return true;
+    }
+
+    // Anything else may have run on the server (a 504 can arrive after a restart started)
+    const method = (error.config?.method ?? 'get').toLowerCase();
+    if (method !== 'get') {
+      return false;
+    }
+    return (
+      !error.response || TRANSIENT_STATUSES.includes(error.response.status)
+    );
+  }
+
+  /**
+   * Map a failed request to the matching CoreManagerError subclass
+   * @param error - The error raised by the request
+   */
+  private toTypedError(error: AxiosError): CoreManagerError {
+    const route = `${(error.config?.method ?? 'get').toUpperCase()} ${error.config?.url ?? ''}`;
+
+    if (TIMEOUT_ERROR_CODES.includes(error.code ?? '')) {
+      return new UnreachableError(
+        `${route}: the resource manager at ${this.baseUrl} did not answer within ${error.config?.timeout}ms`
+      );
+    }
+    if (!error.response) {
+      return new UnreachableError(
+        `${route}: could not reach the resource manager at ${this.baseUrl} (${error.code ?? error.message})`
+      );
+    }
+
+    const { status, statusText, data } = error.response;
+    const body = data as { error?: string; message?: string } | string | null;
+    const reason =
+      typeof body === 'string'
+        ? body || statusText
+        : (body?.error ?? body?.message ?? statusText);
+    const message = `${route} failed with ${status}: ${reason}`;
+
+    if (status === 401 || status === 403) {
+      return new UnauthorizedError(message, status, data);
+    }
+    if (status === 404) {
+      return new NotFoundError(message, data);
+    }
+    return new ServerError(message, status, data);
+  }
+
+  /**
+   * Handle errors from API requests: rethrow them in strict mode, log them otherwise
    * @param message - A context message for the error
    * @param error - The error object
    */
   private handleError(message: string, error: unknown): void {
-    if (axios.isAxiosError(error)) {
-      if (error.response) {
-        // The request was made and the server responded with a status code
-        // that falls out of the range of 2xx
-        console.error(
-          `${message}: ${error.response.status} - ${JSON.stringify(
-            error.response.data
-          )}`
-        );
-      } else if (error.request) {
-        // The request was made but no response was received
-        console.error(`${message}: No response received from server`);
-      } else {
-        // Something happened in setting up the request that triggered an Error
-        console.error(`${message}: ${error.message}`);
+    if (this.strict) {
+      if (error instanceof Error && !(error instanceof CoreManagerError)) {
+        error.message = `${message}: ${error.message}`;
       }
-    } else {
-      // Something else happened
-      console.error(`${message}: ${error}`);
+      throw error;
     }
+
+    this.logError(message, error);
+  }
+
+  /**
+   * Log an error with its context message
+   * @param message - A context message for the error
+   * @param error - The error object
+   */
+  private logError(message: string, error: unknown): void {
+    console.error(
+      `${message}: ${error instanceof Error ? error.message : error}`
+    );
   }
 }
 
 export default CoreManager;
-
-// Example usage:
-/*
-async function main() {
-  try {
-    const manager = new CoreManager();
-    
-    // Get all resources
-    const resources = await manager.getResources();
-    console.log(`Available resources (${resources.length}):`, resources);
-    
-    // Restart a specific resource
-    const resourceToRestart = 'my-resource';
-    const restartResult = await manager.restartResource(resourceToRestart);
-    console.log(`Restart result for ${resourceToRestart}:`, restartResult);
-    
-    // Restart all resources
-    const restartAllResult = await manager.restartAllResources();
-    console.log('Restart all resources result:', restartAllResult);
-  } catch (error) {
-    console.error('Error in main function:', error);
-  }
-}
-
-main();
-*/
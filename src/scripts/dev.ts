@@ -1,13 +1,53 @@
 #!/usr/bin/env node
 import path from 'node:path';
-import { rm, mkdir, readdir, rename } from 'node:fs/promises';
+import { rm, mkdir, readdir, readFile, rename } from 'node:fs/promises';
 import chokidar from 'chokidar';
+import { BuildScheduler } from './buildScheduler.js';
 import { discoverPlugins } from './discoverPlugins.js';
-import { exec } from './utils.js';
-import CoreManager from './coreManagerScript.js';
+import { findOwningResource, readManifestUiDir } from './resourceManifest.js';
+import { exec, exists } from './utils.js';
+import CoreManager, { UnreachableError } from './coreManagerScript.js';
+import {
+  createManager,
+  getServerArgs,
+  resolveServerProfiles,
+  type ServerProfile,
+} from './serverProfiles.js';
 
-// Initialize the resource manager
-const resourceManager = new CoreManager();
+interface Server {
+  name: string;
+  manager: CoreManager;
+  profile: ServerProfile;
+}
+
+// Servers to deploy to and restart resources on, picked with --server (repeatable)
+const serverNames = getServerArgs();
+const servers: Server[] = await resolveServerProfiles(serverNames)
+  .then((profiles) =>
+    profiles.map((profile) => ({
+      name: profile.name,
+      manager: createManager(profile),
+      profile,
+    }))
+  )
+  .catch((error) => {
+    console.error(`[dev] ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  });
+
+// Remote servers get each rebuilt resource uploaded on its own and restarted by the deploy;
+// local servers get resources moved into their resources folder and restarted afterwards
+const remoteServers = servers.filter(
+  (server) => server.profile.deploy === 'remote'
+);
+const localServers = servers.filter(
+  (server) => !remoteServers.includes(server)
+);
+
+// Log prefix naming the server once several are in use
+function tag(server: Server): string {
+  return servers.length > 1 ? `[dev] [${server.name}]` : '[dev]';
+}
 
 // Paths to built script routines
 const scriptsDist = path.resolve(process.cwd(), 'dist', 'scripts');
@@ -29,8 +69,27 @@ const outputPaths = [
   '**/[GENERATED]/**',
 ];
 
-// Discover plugin directories once at start
-const pluginDirs = discoverPlugins(pluginBase).map((d) => path.resolve(d));
+// Plugin directories, rediscovered whenever a plugin.json is added or removed
+const pluginDirs = new Set(
+  discoverPlugins(pluginBase).map((d) => path.resolve(d))
+);
+
+// Resource name each plugin was last built as, kept to stop it once the plugin is gone
+const pluginResources = new Map<string, string>();
+
+// Plugins added while running, started on their first build instead of restarted
+const newPlugins = new Set<string>();
+
+// Builds run through one scheduler: changes are queued per plugin (never dropped), independent
+// plugins build side by side, and everything writing to dist or deploying it holds the `dist` lock
+const BUILD_CONCURRENCY = Number(process.env.DEV_BUILD_CONCURRENCY) || 2;
+const scheduler = new BuildScheduler(BUILD_CONCURRENCY, (key, err) =>
+  console.error(`[dev] error in task '${key}':`, err)
+);
+
+function withDist<T>(step: () => Promise<T>): Promise<T> {
+  return scheduler.exclusive('dist', step);
+}
 
 // Debounce helpers
 const timers = new Map<string, NodeJS.Timeout>();
@@ -48,159 +107,413 @@ function debounce(key: string, fn: () => Promise<void>, delay = 100) {
   timers.set(key, t);
 }
 
-// Restart a resource after rebuild
-async function restartResource(resourceName: string) {
+// Time to let a restarted resource boot before collecting its errors
+const STARTUP_LOG_DELAY = 1000;
+
+// Print errors the resource logged on the server since it was restarted
+async function printStartupErrors(
+  server: Server,
+  resourceName: string,
+  since: number
+) {
+  await new Promise((resolve) => setTimeout(resolve, STARTUP_LOG_DELAY));
+
+  const errors = (await server.manager.getLogs(resourceName, since)).filter(
+    (entry) => entry.level === 'error'
+  );
+  for (const entry of errors) {
+    console.error(`${tag(server)} [${resourceName}] ${entry.message}`);
+  }
+}
+
+// Restart a resource on one server
+async function restartResourceOn(server: Server, resourceName: string) {
   try {
     // Check if the resource exists before attempting to restart
-    const exists = await resourceManager.resourceExists(resourceName);
+    const exists = await server.manager.resourceExists(resourceName);
     if (!exists) {
       console.log(
-        `[dev] resource '${resourceName}' not found, skipping restart`
+        `${tag(server)} resource '${resourceName}' not found, skipping restart`
       );
       return;
     }
 
-    console.log(`[dev] restarting resource: ${resourceName}`);
-    const result = await resourceManager.restartResource(resourceName);
+    console.log(`${tag(server)} restarting resource: ${resourceName}`);
+    const restartedAt = Date.now();
+    const result = await server.manager.restartResource(resourceName);
 
     if (result.success) {
-      console.log(`[dev] resource '${resourceName}' restarted successfully`);
+      console.log(
+        `${tag(server)} resource '${resourceName}' restarted successfully`
+      );
+      if (result.order && result.order.length > 1) {
+        console.log(
+          `${tag(server)} also restarted dependents: ${result.order.slice(1).join(', ')}`
+        );
+      }
+      await printStartupErrors(server, resourceName, restartedAt);
     } else {
       console.error(
-        `[dev] failed to restart resource '${resourceName}': ${result.message}`
+        `${tag(server)} failed to restart resource '${resourceName}': ${result.message}`
       );
+      for (const [resource, failure] of Object.entries(result.failures ?? {})) {
+        failure.errors.forEach((error) =>
+          console.error(`${tag(server)} [${resource}] ${error}`)
+        );
+        if (failure.restoredBuild) {
+          console.log(
+            `${tag(server)} server restored last good build ${failure.restoredBuild} of '${resource}'`
+          );
+        }
+      }
     }
   } catch (error) {
-    console.error(`[dev] error restarting resource '${resourceName}':`, error);
+    console.error(
+      `${tag(server)} error restarting resource '${resourceName}':`,
+      error
+    );
   }
 }
 
-// Extract resource name from plugin directory
+// Restart a resource after rebuild on every server (or the given ones)
+async function restartResource(resourceName: string, targets = servers) {
+  await Promise.all(
+    targets.map((server) => restartResourceOn(server, resourceName))
+  );
+}
+
+// FiveM names resources after their folder, so a plugin's resource is its folder name
+// (the plugin.json `name` is manifest metadata; namespaces like `[misc]` are categories)
 function getResourceNameFromPluginDir(pluginDir: string): string {
-  // Get the plugin name from the directory (last part of the path)
-  const pluginName = path.basename(pluginDir);
-  // Convert to resource name format (could be customized based on your naming convention)
-  return `${pluginName}`;
+  return path.basename(pluginDir);
 }
 
-// Rebuild a single plugin and move its outputs
+// Rebuild a single plugin and move its outputs; new plugins are started instead of restarted
 async function rebuildPlugin(pluginDir: string) {
   const rel = path.relative(pluginBase, pluginDir);
   const dest = path.resolve('dist', rel);
   console.log(`[dev] rebuilding plugin: ${rel}`);
-  // clean destination
-  await rm(dest, { recursive: true, force: true });
-  await mkdir(dest, { recursive: true });
-  // invoke generic plugin build
+  // invoke generic plugin build (into the plugin's own dist, so plugins build side by side)
   await exec(`cd "${pluginDir}" && node "${buildPluginScripts}"`);
   // move built files
   const srcDist = path.join(pluginDir, 'dist');
   try {
-    const files = await readdir(srcDist);
-    for (const file of files) {
-      await rename(path.join(srcDist, file), path.join(dest, file));
+    await withDist(async () => {
+      // clean destination
+      await rm(dest, { recursive: true, force: true });
+      await mkdir(dest, { recursive: true });
+      const files = await readdir(srcDist);
+      for (const file of files) {
+        await rename(path.join(srcDist, file), path.join(dest, file));
+      }
+      console.log(`[dev] plugin rebuilt: ${rel}`);
+      // Move updated resources to server
+      await rebuildResources(rel);
+    });
+  } catch (err) {
+    console.error(`[dev] failed moving build for plugin ${rel}:`, err);
+    return;
+  }
+
+  const resourceName = getResourceNameFromPluginDir(pluginDir);
+  pluginResources.set(pluginDir, resourceName);
+  // Start or restart the corresponding resource; remote deploys already did
+  if (newPlugins.delete(pluginDir)) {
+    await startNewResource(resourceName, localServers);
+  } else {
+    await restartResource(resourceName, localServers);
+  }
+}
+
+// Queue a plugin rebuild; deleted plugins are torn down by the plugin.json watcher instead
+function scheduleRebuildPlugin(pluginDir: string) {
+  scheduler.schedule(pluginDir, async () => {
+    if (await exists(path.join(pluginDir, 'plugin.json'))) {
+      await rebuildPlugin(pluginDir);
     }
-    console.log(`[dev] plugin rebuilt: ${rel}`);
-    // Move updated resources to server
-    try {
-      await rebuildResources();
-      // Restart the corresponding resource
-      const resourceName = getResourceNameFromPluginDir(pluginDir);
-      await restartResource(resourceName);
-    } catch (err) {
-      console.error(
-        '[dev] failed moving built resources after plugin rebuild:',
-        err
+  });
+}
+
+// Make the servers (or the given ones) pick up a resource deployed for the first time and start it
+async function startNewResource(resourceName: string, targets = servers) {
+  await Promise.all(
+    targets.map(async (server) => {
+      try {
+        await server.manager.refreshResources();
+        const result = await server.manager.ensureResource(resourceName);
+        if (result.success) {
+          console.log(`${tag(server)} started new resource '${resourceName}'`);
+        } else {
+          console.error(
+            `${tag(server)} failed to start new resource '${resourceName}': ${result.message}`
+          );
+        }
+      } catch (error) {
+        console.error(
+          `${tag(server)} error starting resource '${resourceName}':`,
+          error
+        );
+      }
+    })
+  );
+}
+
+// Tear down a plugin whose plugin.json is gone: stop its resource on every server and delete
+// its built output (from [GENERATED] too on local servers) so the stale copy is not started again
+async function removePlugin(pluginDir: string) {
+  const rel = path.relative(pluginBase, pluginDir);
+  const resourceName =
+    pluginResources.get(pluginDir) ?? path.basename(pluginDir);
+  pluginDirs.delete(pluginDir);
+  pluginResources.delete(pluginDir);
+  newPlugins.delete(pluginDir);
+  console.log(`[dev] plugin removed: ${rel}`);
+
+  await withDist(() =>
+    rm(path.resolve('dist', rel), { recursive: true, force: true })
+  );
+  await Promise.all(
+    servers.map(async (server) => {
+      try {
+        const result = await server.manager.stopResource(resourceName);
+        if (result.success) {
+          console.log(`${tag(server)} stopped resource '${resourceName}'`);
+        }
+      } catch (error) {
+        console.error(
+          `${tag(server)} error stopping resource '${resourceName}':`,
+          error
+        );
+      }
+
+      // The deploy API cannot delete resources, so remote servers keep the stopped copy
+      if (server.profile.deploy === 'local' && server.profile.txData) {
+        const { txData } = server.profile;
+        await withDist(() =>
+          rm(path.resolve(txData, 'resources', '[GENERATED]', rel), {
+            recursive: true,
+            force: true,
+          })
+        );
+      }
+    })
+  );
+}
+
+// Compare the plugins on disk with the known ones. Removed plugins are torn down before added
+// ones are queued, so a plugin moved to another namespace folder is stopped at its old path first.
+async function syncPlugins() {
+  const current = discoverPlugins(pluginBase).map((d) => path.resolve(d));
+  const removed = [...pluginDirs].filter((d) => !current.includes(d));
+  const added = current.filter((d) => !pluginDirs.has(d));
+  if (removed.length === 0 && added.length === 0) return;
+
+  const removedDirs = new Map(removed.map((d) => [path.basename(d), d]));
+  for (const pluginDir of removed) {
+    await removePlugin(pluginDir);
+  }
+
+  for (const pluginDir of added) {
+    const previousDir = removedDirs.get(path.basename(pluginDir));
+    if (previousDir) {
+      console.log(
+        `[dev] plugin moved: ${path.relative(pluginBase, previousDir)} -> ${path.relative(pluginBase, pluginDir)}`
       );
     }
-  } catch (err) {
-    console.error(`[dev] failed moving build for plugin ${rel}:`, err);
+    pluginDirs.add(pluginDir);
+    newPlugins.add(pluginDir);
+    scheduleRebuildPlugin(pluginDir);
   }
+
+  // The webview bundles every plugin's html pages
+  const pagesChanged =
+    removed.length > 0 ||
+    (
+      await Promise.all(
+        added.map((pluginDir) => exists(path.join(pluginDir, 'html')))
+      )
+    ).some(Boolean);
+  if (pagesChanged) scheduler.schedule('webview', rebuildWebview);
+}
+
+// Reload a resource's NUI frame after UI-only changes, keeping its script state;
+// falls back to a restart on servers that cannot reload it
+async function reloadResourceUi(resourceName: string) {
+  await Promise.all(
+    servers.map(async (server) => {
+      const reloaded = await server.manager.reloadNui(resourceName).then(
+        (result) => result.success,
+        (error) => {
+          // Nothing else will work while the server is down
+          if (error instanceof UnreachableError) throw error;
+          return false;
+        }
+      );
+      if (reloaded) {
+        console.log(
+          `${tag(server)} reloaded NUI of resource '${resourceName}'`
+        );
+        return;
+      }
+
+      await restartResourceOn(server, resourceName);
+    })
+  );
 }
 
 // Rebuild the core plugin
 async function rebuildCore() {
-  console.log('[dev] rebuilding core plugin');
-  await exec(`node "${buildCorePlugin}"`);
-  console.log('[dev] core plugin rebuilt');
-  // Move updated resources to server
-  try {
-    await rebuildResources();
-    // Restart the core resource
-    await restartResource('core');
-  } catch (err) {
-    console.error(
-      '[dev] failed moving built resources after core rebuild:',
-      err
-    );
-  }
+  // The core build writes straight into dist
+  await withDist(async () => {
+    console.log('[dev] rebuilding core plugin');
+    await exec(`node "${buildCorePlugin}"`);
+    console.log('[dev] core plugin rebuilt');
+    // Move updated resources to server
+    await rebuildResources('core');
+  });
+  // Restart the core resource
+  await restartResource('core', localServers);
 }
 
+// Manifest of the last webview build, kept because local deploys move it out of dist
+let webviewManifest: string | null = null;
+
 // Rebuild the webview UI resource
 async function rebuildWebview() {
-  console.log('[dev] rebuilding webview resource');
-  await exec(`node "${buildPluginsWebview}"`);
-  console.log('[dev] webview resource rebuilt');
-  // Move updated resources to server
+  // The bundle is written straight into dist, so it is serialized with deploys
+  const uiOnly = await withDist(async () => {
+    console.log('[dev] rebuilding webview resource');
+    await exec(`node "${buildPluginsWebview}"`);
+    console.log('[dev] webview resource rebuilt');
+    // An unchanged manifest means only UI assets changed
+    const previousManifest = webviewManifest;
+    webviewManifest = await readFile(
+      path.join(distDir, 'webview', 'fxmanifest.lua'),
+      'utf8'
+    ).catch(() => null);
+    const onlyUi =
+      previousManifest !== null && previousManifest === webviewManifest;
+    // Move updated resources to server, keeping it running when its NUI is reloaded
+    await rebuildResources('webview', !onlyUi);
+    return onlyUi;
+  });
+  // Reload the webview UI, or restart the resource when its manifest changed
+  if (uiOnly) {
+    await reloadResourceUi('webview');
+  } else {
+    await restartResource('webview', localServers);
+  }
+}
+
+// Upload built resources to a remote server, which restarts them (or only starts new ones
+// without `restart`)
+async function deployToServer(
+  server: Server,
+  folder: string | undefined,
+  restart: boolean
+) {
   try {
-    await rebuildResources();
-    // Restart the webview resource
-    await restartResource('webview');
-  } catch (err) {
+    const result = await server.manager.deploy(
+      distDir,
+      folder ? [folder.replace(/\\/g, '/')] : undefined,
+      { restart }
+    );
+    for (const { resource, unchanged, success } of result.deployed) {
+      if (unchanged) {
+        console.log(`${tag(server)} resource '${resource}' is unchanged`);
+      } else if (success) {
+        console.log(`${tag(server)} deployed resource '${resource}'`);
+      } else {
+        console.error(
+          `${tag(server)} resource '${resource}' was deployed but failed to start`
+        );
+      }
+    }
+  } catch (error) {
     console.error(
-      '[dev] failed moving built resources after webview rebuild:',
-      err
+      `${tag(server)} error deploying ${folder ? `'${folder}'` : 'resources'}:`,
+      error instanceof Error ? error.message : error
     );
   }
 }
 
-// Flag to prevent rebuilds triggered by our own build process
-let isBuilding = false;
+// Deploy built resources: upload `folder` (every folder under dist except scripts when omitted)
+// to remote servers, then move everything built into the local servers' resources folder
+async function rebuildResources(folder?: string, restart = true) {
+  // Uploads read dist, so they run before the local move empties it
+  await Promise.all(
+    remoteServers.map((server) => deployToServer(server, folder, restart))
+  );
+  if (localServers.length === 0) return;
 
-// Move built resources (all folders under dist except scripts) into the server resources folder
-async function rebuildResources() {
   console.log('[dev] moving built resources');
-  await exec(`node "${moveBuiltResources}"`);
+  const names = remoteServers.length
+    ? localServers.map((server) => server.name)
+    : serverNames;
+  const serverArgs = names.map((name) => ` --server "${name}"`).join('');
+  await exec(`node "${moveBuiltResources}"${serverArgs}`);
   console.log('[dev] resources moved');
 }
 
+// Report restart failures and auto-reloads pushed by the servers as they happen
+for (const server of servers) {
+  server.manager.subscribe(
+    (event) => {
+      if (event.type === 'resource:restartFailed') {
+        console.error(
+          `${tag(server)} server reported restart failure for '${event.resource}': ${event.error}`
+        );
+      } else if (event.type === 'autoReload:detected') {
+        console.log(
+          `${tag(server)} server auto-reload detected changes in: ${event.resources?.join(', ')}`
+        );
+      }
+    },
+    ['resource:restartFailed', 'autoReload:detected']
+  );
+}
+
 // Get a list of all resources on startup for validation purposes
-let availableResources: string[] = [];
 async function fetchAvailableResources() {
-  try {
-    availableResources = await resourceManager.getResources();
-    console.log(
-      `[dev] discovered ${availableResources.length} resources on the server`
-    );
-  } catch (error) {
-    console.error('[dev] failed to fetch available resources:', error);
+  for (const server of servers) {
+    try {
+      const availableResources = await server.manager.getResources();
+      console.log(
+        `${tag(server)} discovered ${availableResources.length} resources on the server`
+      );
+    } catch (error) {
+      console.error(
+        `${tag(server)} failed to fetch available resources:`,
+        error
+      );
+    }
   }
 }
 
 // Perform an initial build of core, all plugins, webview, and move resources
 (async () => {
-  isBuilding = true;
   console.log('[dev] performing initial build');
 
   // First fetch available resources
   await fetchAvailableResources();
 
+  // Core plugin
+  scheduler.schedule('core', rebuildCore);
+  // All plugins
+  for (const pluginDir of pluginDirs) {
+    scheduleRebuildPlugin(pluginDir);
+  }
+  // Webview UI
+  scheduler.schedule('webview', rebuildWebview);
+
+  await scheduler.whenIdle();
+  // Move generated resources
   try {
-    // Core plugin
-    await rebuildCore();
-    // All plugins
-    for (const pluginDir of pluginDirs) {
-      await rebuildPlugin(pluginDir);
-    }
-    // Webview UI
-    await rebuildWebview();
-    // Move generated resources
-    await rebuildResources();
+    await withDist(rebuildResources);
   } catch (err) {
     console.error('[dev] initial build error:', err);
-  } finally {
-    isBuilding = false;
   }
+  console.log('[dev] initial build done');
 })();
 
 // Watch plugin scripts (TS, JSON, and Lua) for rebuild
@@ -210,19 +523,26 @@ chokidar
     ignored: outputPaths,
   })
   .on('all', (event, file) => {
-    if (isBuilding) return;
-
     const abs = path.resolve(file);
-    const pluginDir = pluginDirs.find((d) => abs.startsWith(d + path.sep));
+    const pluginDir = [...pluginDirs].find((d) => abs.startsWith(d + path.sep));
     if (pluginDir) {
-      debounce(pluginDir, async () => {
-        isBuilding = true;
-        try {
-          await rebuildPlugin(pluginDir);
-        } finally {
-          isBuilding = false;
-        }
-      });
+      debounce(pluginDir, async () => scheduleRebuildPlugin(pluginDir));
+    }
+  });
+
+// Watch for plugins being created, deleted or moved between namespace folders
+chokidar
+  .watch([`${pluginBase}/**/plugin.json`], {
+    ignoreInitial: true,
+    ignored: outputPaths,
+  })
+  .on('all', (event) => {
+    if (event === 'add' || event === 'unlink') {
+      debounce(
+        'plugins',
+        async () => scheduler.schedule('plugins', syncPlugins),
+        300
+      );
     }
   });
 
@@ -233,58 +553,64 @@ chokidar
     ignored: outputPaths,
   })
   .on('all', () => {
-    if (isBuilding) return;
-
-    debounce('core', async () => {
-      isBuilding = true;
-      try {
-        await rebuildCore();
-      } finally {
-        isBuilding = false;
-      }
-    });
+    debounce('core', async () => scheduler.schedule('core', rebuildCore));
   });
 
 // Watch webview sources and plugin HTML pages for UI rebuild
 chokidar
   .watch([`${pluginBase}/**/html/**/*`, `src/webview/**/*`], {
     ignoreInitial: true,
-    ignored: outputPaths,
+    // App.tsx is generated by the webview build itself
+    ignored: [...outputPaths, 'src/webview/App.tsx'],
   })
   .on('all', (event, filePath) => {
-    if (isBuilding) return;
-
     // If the file is in a dist directory, ignore it (additional safeguard)
     if (filePath.includes('/dist/') || filePath.includes('\\dist\\')) {
       return;
     }
 
-    debounce('webview', async () => {
-      isBuilding = true;
-      try {
-        await rebuildWebview();
-      } finally {
-        isBuilding = false;
-      }
-    });
+    debounce('webview', async () =>
+      scheduler.schedule('webview', rebuildWebview)
+    );
   });
 
+// Whether every change queued for a resource touched only its NUI assets
+const pendingUiOnly = new Map<string, boolean>();
+
 // Add a new watcher for specific resources that might be rebuilt outside our normal workflow
 chokidar
   .watch(['dist/**/*'], {
     ignoreInitial: true,
-    ignored: [...outputPaths, 'dist/scripts/**'],
+    // Not outputPaths: those exclude dist itself
+    ignored: ['dist/scripts/**', '**/node_modules/**'],
   })
-  .on('all', (event, filePath) => {
-    if (isBuilding) return;
+  .on('all', async (event, filePath) => {
+    // Changes from our own builds are deployed and restarted by the build itself
+    if (scheduler.isBusy()) return;
 
-    // Extract potential resource name from the path
-    const relativePath = path.relative(distDir, path.dirname(filePath));
-    const potentialResource = relativePath.split(path.sep)[0];
+    // Resolve the owning resource from the nearest fxmanifest.lua
+    const resource = await findOwningResource(filePath, distDir);
 
-    if (potentialResource && potentialResource !== 'scripts') {
-      debounce(`resource-${potentialResource}`, async () => {
-        await restartResource(potentialResource);
+    if (resource) {
+      const uiDir = await readManifestUiDir(resource.dir);
+      const relPath = path
+        .relative(resource.dir, path.resolve(filePath))
+        .replace(/\\/g, '/');
+      const uiOnly = uiDir !== null && relPath.startsWith(`${uiDir}/`);
+      pendingUiOnly.set(
+        resource.name,
+        (pendingUiOnly.get(resource.name) ?? true) && uiOnly
+      );
+
+      debounce(`resource-${resource.name}`, async () => {
+        const onlyUi = pendingUiOnly.get(resource.name);
+        pendingUiOnly.delete(resource.name);
+
+        if (onlyUi) {
+          await reloadResourceUi(resource.name);
+        } else {
+          await restartResource(resource.name);
+        }
       });
     }
   });
@@ -2,6 +2,7 @@
 import path from 'node:path';
 import 'dotenv/config';
 import {
+  cp,
   readdir,
   rm,
   mkdir,
@@ -10,16 +11,59 @@ import {
   writeFile,
 } from 'node:fs/promises';
 import { exists } from './utils.js';
+import { findResourceDirs, recordBuild } from './buildHistory.js';
+import {
+  createManager,
+  getServerArgs,
+  resolveServerProfiles,
+  type ServerProfile,
+} from './serverProfiles.js';
 
-(async () => {
-  const serverName = process.env.SERVER_NAME;
-  if (!serverName) {
+// Number of previous builds kept per resource for rollbacks
+const keepBuilds = Number(process.env.KEEP_BUILDS) || 5;
+
+// Upload resources through the manager API instead of moving them on disk
+const forceRemote = process.argv.includes('--remote');
+
+const projectDir = process.cwd();
+const distDir = path.join(projectDir, 'dist');
+
+// Upload every built resource to a server through its manager API
+async function deployRemote(profile: ServerProfile) {
+  let result;
+  try {
+    result = await createManager(profile).deploy(distDir);
+  } catch (error) {
+    console.error(
+      `Remote deploy to '${profile.name}' failed: ${error instanceof Error ? error.message : error}`
+    );
+    process.exit(1);
+  }
+
+  for (const { resource, unchanged, success } of result.deployed) {
+    console.log(
+      unchanged
+        ? `Resource '${resource}' is unchanged on '${profile.name}'.`
+        : success
+          ? `Deployed resource '${resource}' to '${profile.name}'.`
+          : `Resource '${resource}' was deployed to '${profile.name}' but failed to start.`
+    );
+  }
+
+  if (!result.success) {
+    console.error(`Remote deploy to '${profile.name}' failed.`);
+    process.exit(1);
+  }
+}
+
+// Move (or copy, when other servers still need them) built resources into a local server
+async function deployLocal(profile: ServerProfile, keepDist: boolean) {
+  if (!profile.txData) {
     console.error('Environment variable SERVER_NAME is not defined.');
     process.exit(1);
   }
 
-  const projectDir = process.cwd();
-  const serverDir = path.join(projectDir, 'txData', serverName);
+  const serverDir = path.resolve(projectDir, profile.txData);
   if (!(await exists(serverDir))) {
     console.error(`Server directory does not exist: ${serverDir}`);
     process.exit(1);
@@ -28,7 +72,6 @@ import { exists } from './utils.js';
   const resourcesDir = path.join(serverDir, 'resources');
   await mkdir(resourcesDir, { recursive: true });
 
-  const distDir = path.join(projectDir, 'dist');
   let distEntries;
   try {
     distEntries = await readdir(distDir, { withFileTypes: true });
@@ -47,10 +90,34 @@ import { exists } from './utils.js';
     const srcPath = path.join(distDir, entry.name);
     const destPath = path.join(resourcesDir, '[GENERATED]', entry.name);
     try {
+      // Keep a copy of every resource in this entry so it can be rolled back later
+      const resourceDirs = (await exists(path.join(srcPath, 'fxmanifest.lua')))
+        ? ['']
+        : await findResourceDirs(srcPath);
+      for (const resourceDir of resourceDirs) {
+        const relPath = path.join(entry.name, resourceDir);
+        const build = await recordBuild(
+          serverDir,
+          path.basename(relPath),
+          relPath,
+          path.join(distDir, relPath),
+          keepBuilds
+        );
+        console.log(
+          `Recorded build ${build.id} of '${path.basename(relPath)}'.`
+        );
+      }
+
       await rm(destPath, { recursive: true, force: true });
       await mkdir(path.dirname(destPath), { recursive: true });
-      await rename(srcPath, destPath);
-      console.log(`Moved resource '${entry.name}' to server resources.`);
+      if (keepDist) {
+        await cp(srcPath, destPath, { recursive: true });
+      } else {
+        await rename(srcPath, destPath);
+      }
+      console.log(
+        `Moved resource '${entry.name}' to '${profile.name}' server resources.`
+      );
       movedResources.push(entry.name);
     } catch (err) {
       console.error(`Failed to move resource '${entry.name}':`, err);
@@ -115,4 +182,29 @@ import { exists } from './utils.js';
   } else {
     console.log('No changes needed to server.cfg');
   }
+}
+
+(async () => {
+  let profiles;
+  try {
+    profiles = await resolveServerProfiles(getServerArgs());
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  // Uploads read dist, so they run before local moves empty it
+  const remoteProfiles = profiles.filter(
+    (profile) => forceRemote || profile.deploy === 'remote'
+  );
+  const localProfiles = profiles.filter(
+    (profile) => !remoteProfiles.includes(profile)
+  );
+
+  for (const profile of remoteProfiles) {
+    await deployRemote(profile);
+  }
+  for (const [index, profile] of localProfiles.entries()) {
+    await deployLocal(profile, index < localProfiles.length - 1);
+  }
 })();
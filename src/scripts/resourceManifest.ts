@@ -0,0 +1,46 @@
+import path from 'node:path';
+import { readFile } from 'node:fs/promises';
+import { exists } from './utils.js';
+
+/**
+ * Reads the folder of the `ui_page` declared in a resource's fxmanifest.lua
+ * @param resourceDir Directory containing the fxmanifest.lua
+ * @returns The folder relative to the resource, e.g. `ui`, or null when the resource has
+ * no UI or its page sits at the resource root
+ */
+export async function readManifestUiDir(
+  resourceDir: string
+): Promise<string | null> {
+  const manifestPath = path.join(resourceDir, 'fxmanifest.lua');
+  if (!(await exists(manifestPath))) return null;
+
+  const match = (await readFile(manifestPath, 'utf8')).match(
+    /^\s*ui_page\s*\(?\s*['"]([^'"]+)['"]/m
+  );
+  const uiDir = match ? path.posix.dirname(match[1]) : '.';
+  return uiDir === '.' ? null : uiDir;
+}
+
+/**
+ * Resolves the resource owning a file by walking up to the nearest fxmanifest.lua below `root`
+ * @param filePath File (or directory) inside a built resource
+ * @param root Directory the search never goes above, e.g. `dist`
+ * @returns The resource directory and its name, which FiveM takes from the folder (the manifest's
+ * `name` field is metadata only), or null when the file is not inside a resource
+ */
+export async function findOwningResource(
+  filePath: string,
+  root: string
+): Promise<{ dir: string; name: string } | null> {
+  const rootDir = path.resolve(root);
+  let dir = path.resolve(filePath);
+
+  while (dir.startsWith(rootDir + path.sep)) {
+    if (await exists(path.join(dir, 'fxmanifest.lua'))) {
+      return { dir, name: path.basename(dir) };
+    }
+    dir = path.dirname(dir);
+  }
+
+  return null;
+}
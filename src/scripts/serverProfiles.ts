@@ -0,0 +1,183 @@
+import path from 'node:path';
+import { readFile } from 'node:fs/promises';
+import 'dotenv/config';
+import { exists } from './utils.js';
+import CoreManager, { type CoreManagerOptions } from './coreManagerScript.js';
+
+/**
+ * How built resources reach a server:
+ * - `local`: moved into `<txData>/resources/[GENERATED]` on this machine
+ * - `remote`: uploaded through the manager API (`POST /deploy`)
+ */
+export type DeployMode = 'local' | 'remote';
+
+/**
+ * A server the scripts can build for, read from `servers.json` (path overridable with `SERVERS_FILE`):
+ *
+ *   {
+ *     "default": "local",
+ *     "servers": {
+ *       "local": { "url": "http://localhost:3414", "tokenEnv": "API_KEY", "txData": "txData/twore" },
+ *       "staging": { "url": "https://staging.example.com:3414", "tokenEnv": "STAGING_API_KEY" }
+ *     }
+ *   }
+ *
+ * Tokens are never stored in the file: `tokenEnv` names the environment variable (e.g. from `.env`)
+ * holding the API token. `deploy` defaults to `local` when `txData` is set and `remote` otherwise.
+ */
+export interface ServerProfile {
+  name: string;
+  url: string;
+  tokenEnv: string;
+  txData?: string;
+  deploy: DeployMode;
+}
+
+interface ServersFile {
+  default?: string;
+  servers: Record<
+    string,
+    { url?: string; tokenEnv?: string; txData?: string; deploy?: DeployMode }
+  >;
+}
+
+const DEFAULT_URL = 'http://localhost:3414';
+
+/**
+ * Reads the servers file
+ * @returns The parsed file, or null when the project has none
+ */
+async function readServersFile(): Promise<ServersFile | null> {
+  const filePath = path.resolve(process.env.SERVERS_FILE || 'servers.json');
+  if (!(await exists(filePath))) return null;
+
+  let parsed: ServersFile;
+  try {
+    parsed = JSON.parse(await readFile(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to parse ${filePath}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  if (!parsed || typeof parsed.servers !== 'object' || !parsed.servers) {
+    throw new Error(`${filePath} must contain a "servers" object`);
+  }
+  return parsed;
+}
+
+/**
+ * Builds the profile used when no servers file exists, from the variables in `.env`
+ * (`RESOURCE_MANAGER_URL`, `API_KEY`, `SERVER_NAME` and `DEPLOY_MODE`)
+ */
+function getEnvironmentProfile(): ServerProfile {
+  const txData = process.env.SERVER_NAME
+    ? path.join('txData', process.env.SERVER_NAME)
+    : undefined;
+  return {
+    name: 'default',
+    url: process.env.RESOURCE_MANAGER_URL || DEFAULT_URL,
+    tokenEnv: 'API_KEY',
+    txData,
+    deploy: process.env.DEPLOY_MODE === 'remote' ? 'remote' : 'local',
+  };
+}
+
+/**
+ * Collects the profile names passed as `--server <name>` or `--server=<name>`;
+ * the flag may be repeated and takes comma separated names
+ * @param argv Arguments to search (defaults to the process arguments)
+ */
+export function getServerArgs(argv: string[] = process.argv): string[] {
+  const names: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    let value: string | undefined;
+    if (argv[i] === '--server') {
+      value = argv[++i];
+    } else if (argv[i].startsWith('--server=')) {
+      value = argv[i].slice('--server='.length);
+    }
+    if (value) names.push(...value.split(','));
+  }
+  return names.map((name) => name.trim()).filter(Boolean);
+}
+
+/**
+ * Resolves server profiles by name
+ * @param names Profiles to use; when empty, `SERVER_PROFILE` or the file's `default` is used,
+ * and without a servers file the profile described by `.env`
+ * @returns The profiles in the order given, without duplicates
+ */
+export async function resolveServerProfiles(
+  names: string[] = []
+): Promise<ServerProfile[]> {
+  const file = await readServersFile();
+  const requested = names.length
+    ? names
+    : [process.env.SERVER_PROFILE || file?.default].filter(
+        (name): name is string => !!name
+      );
+
+  if (!file) {
+    if (requested.length) {
+      throw new Error(
+        `Server profile '${requested[0]}' requested but no servers.json was found`
+      );
+    }
+    return [getEnvironmentProfile()];
+  }
+
+  const available = Object.keys(file.servers);
+  if (!requested.length) {
+    if (available.length !== 1) {
+      throw new Error(
+        `Several server profiles are defined (${available.join(', ')}); pick one with --server or set "default"`
+      );
+    }
+    requested.push(available[0]);
+  }
+
+  return [...new Set(requested)].map((name) => {
+    const entry = file.servers[name];
+    if (!entry) {
+      throw new Error(
+        `Unknown server profile '${name}' (available: ${available.join(', ')})`
+      );
+    }
+    if (entry.deploy && entry.deploy !== 'local' && entry.deploy !== 'remote') {
+      throw new Error(
+        `Server profile '${name}' has an invalid deploy mode '${entry.deploy}'`
+      );
+    }
+    if (entry.deploy === 'local' && !entry.txData) {
+      throw new Error(
+        `Server profile '${name}' deploys locally but sets no txData path`
+      );
+    }
+
+    return {
+      name,
+      url: entry.url || DEFAULT_URL,
+      tokenEnv: entry.tokenEnv || 'API_KEY',
+      txData: entry.txData,
+      deploy: entry.deploy ?? (entry.txData ? 'local' : 'remote'),
+    };
+  });
+}
+
+/**
+ * Creates a CoreManager for a profile, reading its token from the referenced variable
+ * @param profile Server to connect to
+ * @param options Options passed on to the CoreManager
+ */
+export function createManager(
+  profile: ServerProfile,
+  options?: CoreManagerOptions
+): CoreManager {
+  const token = process.env[profile.tokenEnv];
+  if (!token) {
+    throw new Error(
+      `Server profile '${profile.name}' reads its token from ${profile.tokenEnv}, which is not set`
+    );
+  }
+  return new CoreManager(profile.url, token, options);
+}
@@ -0,0 +1,379 @@
+#!/usr/bin/env node
+import path from 'node:path';
+import 'dotenv/config';
+import { Command } from 'commander';
+import CoreManager, {
+  CoreManagerError,
+  type LogEntry,
+  NotFoundError,
+  type RestartFailure,
+  ServerError,
+  UnauthorizedError,
+  UnreachableError,
+} from './coreManagerScript.js';
+import { createManager, resolveServerProfiles } from './serverProfiles.js';
+
+// Exit code for operations the server reported as failed (commander exits with 1 on usage errors too)
+const EXIT_FAILURE = 1;
+
+// Exit codes for requests that failed outright, so scripts can tell the causes apart
+const EXIT_UNAUTHORIZED = 3;
+const EXIT_NOT_FOUND = 4;
+const EXIT_UNREACHABLE = 5;
+const EXIT_SERVER_ERROR = 6;
+
+function getExitCode(error: unknown): number {
+  if (error instanceof UnauthorizedError) return EXIT_UNAUTHORIZED;
+  if (error instanceof NotFoundError) return EXIT_NOT_FOUND;
+  if (error instanceof UnreachableError) return EXIT_UNREACHABLE;
+  if (error instanceof ServerError) return EXIT_SERVER_ERROR;
+  return EXIT_FAILURE;
+}
+
+const program = new Command();
+
+program
+  .name('twore')
+  .description('Manage a fivem-twore server through its resource manager API')
+  .option(
+    '-s, --server <profile>',
+    'server profile from servers.json; repeat or comma separate to target several',
+    (value: string, previous: string[]) => [...previous, ...value.split(',')],
+    []
+  )
+  .option(
+    '--url <url>',
+    'resource manager base URL, instead of a server profile (token from API_KEY)'
+  )
+  .option('--json', 'print machine-readable JSON instead of text');
+
+interface Target {
+  name: string;
+  manager: CoreManager;
+}
+
+// Resolve the servers selected with --url or --server
+async function getTargets(): Promise<Target[]> {
+  const { url, server } = program.opts();
+  // Failures surface as typed errors (strict is the default), mapped to exit codes
+  if (url) {
+    return [{ name: url, manager: new CoreManager(url) }];
+  }
+
+  const profiles = await resolveServerProfiles(server);
+  return profiles.map((profile) => ({
+    name: profile.name,
+    manager: createManager(profile),
+  }));
+}
+
+// Resolve the single server a read command talks to
+async function getManager(): Promise<CoreManager> {
+  const targets = await getTargets();
+  if (targets.length > 1) {
+    throw new Error('This command works on a single server; pass one --server');
+  }
+  return targets[0].manager;
+}
+
+function describeError(error: unknown) {
+  return error instanceof CoreManagerError
+    ? { error: error.name, status: error.status, message: error.message }
+    : {
+        error: 'Error',
+        message: error instanceof Error ? error.message : String(error),
+      };
+}
+
+// Print `data` as JSON with --json, otherwise run the text printer
+function output(data: unknown, printText: () => void) {
+  if (program.opts().json) {
+    console.log(JSON.stringify(data, null, 2));
+  } else {
+    printText();
+  }
+}
+
+// Mark the run as failed without cutting off pending output
+function fail(message?: string, exitCode = EXIT_FAILURE) {
+  if (message && !program.opts().json) console.error(message);
+  process.exitCode = exitCode;
+}
+
+// Run an action on every selected server at once. A single server prints as usual; several
+// print under their names (keyed by name with --json), and one failing does not stop the rest.
+async function fanOut<T extends { success: boolean }>(
+  run: (manager: CoreManager) => Promise<T>,
+  printText: (result: T) => void
+) {
+  const targets = await getTargets();
+  const outcomes = await Promise.allSettled(
+    targets.map((target) => run(target.manager))
+  );
+
+  if (targets.length === 1) {
+    const [outcome] = outcomes;
+    if (outcome.status === 'rejected') throw outcome.reason;
+    output(outcome.value, () => printText(outcome.value));
+    if (!outcome.value.success) fail();
+    return;
+  }
+
+  const results: Record<string, unknown> = {};
+  outcomes.forEach((outcome, index) => {
+    const { name } = targets[index];
+    if (outcome.status === 'fulfilled') {
+      results[name] = outcome.value;
+      if (!outcome.value.success) fail();
+    } else {
+      results[name] = describeError(outcome.reason);
+      fail(undefined, getExitCode(outcome.reason));
+    }
+  });
+
+  output(results, () => {
+    outcomes.forEach((outcome, index) => {
+      console.log(`[${targets[index].name}]`);
+      if (outcome.status === 'fulfilled') {
+        printText(outcome.value);
+      } else {
+        console.error(describeError(outcome.reason).message);
+      }
+    });
+  });
+}
+
+function formatLogEntry(entry: LogEntry): string {
+  const time = new Date(entry.timestamp).toISOString();
+  return `${time} [${entry.resource}]${entry.level === 'error' ? ' ERROR' : ''} ${entry.message}`;
+}
+
+function printFailures(failures: Record<string, RestartFailure> = {}) {
+  for (const [resource, failure] of Object.entries(failures)) {
+    console.error(`  ${resource}: ${failure.state}`);
+    failure.errors.forEach((error) => console.error(`    ${error}`));
+    if (failure.restoredBuild) {
+      console.error(`    restored build ${failure.restoredBuild}`);
+    }
+  }
+}
+
+const resources = program
+  .command('resources')
+  .description('inspect and control resources');
+
+resources
+  .command('list')
+  .description('list the resources known to the server')
+  .option('-d, --details', 'include state, version and path')
+  .action(async (options: { details?: boolean }) => {
+    const manager = await getManager();
+
+    if (options.details) {
+      const details = await manager.getResourcesWithDetails();
+      output(details, () => {
+        for (const resource of details) {
+          console.log(
+            `${resource.name}\t${resource.state}\t${resource.version ?? '-'}\t${resource.path}`
+          );
+        }
+      });
+      return;
+    }
+
+    const names = await manager.getResources();
+    output(names, () => names.forEach((name) => console.log(name)));
+  });
+
+resources
+  .command('info <resource>')
+  .description('show the state and manifest metadata of a resource')
+  .action(async (resourceName: string) => {
+    const details = await (await getManager()).getResourceDetails(resourceName);
+    if (!details) {
+      output(null, () => {});
+      fail(`Resource '${resourceName}' not found`, EXIT_NOT_FOUND);
+      return;
+    }
+
+    output(details, () => {
+      for (const [key, value] of Object.entries(details)) {
+        console.log(
+          `${key}: ${Array.isArray(value) ? value.join(', ') : (value ?? '-')}`
+        );
+      }
+    });
+  });
+
+resources
+  .command('restart <resource>')
+  .description('restart a resource and the started resources depending on it')
+  .option('--no-cascade', 'do not restart dependents')
+  .action(async (resourceName: string, options: { cascade: boolean }) => {
+    await fanOut(
+      (manager) => manager.restartResource(resourceName, options.cascade),
+      (result) => {
+        console.log(result.message);
+        if (result.order && result.order.length > 1) {
+          console.log(`Restart order: ${result.order.join(' -> ')}`);
+        }
+        printFailures(result.failures);
+      }
+    );
+  });
+
+for (const action of ['start', 'stop', 'ensure'] as const) {
+  resources
+    .command(`${action} <resource>`)
+    .description(`${action} a resource`)
+    .action(async (resourceName: string) => {
+      await fanOut(
+        (manager) =>
+          action === 'start'
+            ? manager.startResource(resourceName)
+            : action === 'stop'
+              ? manager.stopResource(resourceName)
+              : manager.ensureResource(resourceName),
+        (result) => console.log(result.message)
+      );
+    });
+}
+
+program
+  .command('restart-all')
+  .description('restart every resource except protected ones')
+  .option('-g, --generated-only', 'only restart resources under [GENERATED]')
+  .action(async (options: { generatedOnly?: boolean }) => {
+    await fanOut(
+      (manager) => manager.restartAllResources(options.generatedOnly),
+      (result) => {
+        console.log(result.message);
+        for (const [resource, success] of Object.entries(
+          result.results ?? {}
+        )) {
+          console.log(`${success ? 'ok    ' : 'FAILED'} ${resource}`);
+        }
+        const skipped = Object.keys(result.skipped ?? {}).length;
+        if (skipped > 0) console.log(`Skipped ${skipped} resources`);
+      }
+    );
+  });
+
+program
+  .command('logs <resource>')
+  .description("print a resource's captured console output ('*' for all)")
+  .option('-f, --follow', 'keep printing new lines as they are logged')
+  .option('--since <timestamp>', 'only lines logged at or after this time (ms)')
+  .option('-n, --limit <count>', 'maximum number of lines')
+  .action(
+    async (
+      resourceName: string,
+      options: { follow?: boolean; since?: string; limit?: string }
+    ) => {
+      const manager = await getManager();
+
+      if (options.follow) {
+        // Runs until interrupted; a failed or closed stream rejects so it gets an exit code
+        await new Promise<void>((resolve, reject) => {
+          // One JSON object per line so the stream can be piped
+          const stop = manager.followLogs(
+            resourceName,
+            (entry) =>
+              console.log(
+                program.opts().json
+                  ? JSON.stringify(entry)
+                  : formatLogEntry(entry)
+              ),
+            {
+              onError: reject,
+              onEnd: () =>
+                reject(new UnreachableError('Log stream closed by the server')),
+            }
+          );
+          process.on('SIGINT', () => {
+            stop();
+            resolve();
+          });
+        });
+        return;
+      }
+
+      const entries = await manager.getLogs(
+        resourceName,
+        options.since ? Number(options.since) : undefined,
+        options.limit ? Number(options.limit) : undefined
+      );
+      output(entries, () =>
+        entries.forEach((entry) => console.log(formatLogEntry(entry)))
+      );
+    }
+  );
+
+const players = program
+  .command('players')
+  .description('list or drop connected players');
+
+players
+  .command('list', { isDefault: true })
+  .description('list connected players')
+  .action(async () => {
+    const list = await (await getManager()).getPlayers();
+
+    output(list, () => {
+      for (const player of list) {
+        console.log(
+          `${player.id}\t${player.name}\t${player.ping}ms\t${player.endpoint}`
+        );
+      }
+    });
+  });
+
+players
+  .command('drop <id>')
+  .description('disconnect a player')
+  .option('-r, --reason <reason>', 'reason shown to the player')
+  .action(async (playerId: string, options: { reason?: string }) => {
+    const result = await (
+      await getManager()
+    ).dropPlayer(playerId, options.reason);
+
+    output(result, () => console.log(result.message));
+    if (!result.success) fail();
+  });
+
+program
+  .command('deploy [distDir]')
+  .description('upload built resources to the server (default: ./dist)')
+  .option(
+    '-r, --resource <folders...>',
+    'only deploy these folders, relative to distDir'
+  )
+  .action(
+    async (distDir: string | undefined, options: { resource?: string[] }) => {
+      await fanOut(
+        (manager) =>
+          manager.deploy(path.resolve(distDir ?? 'dist'), options.resource),
+        (result) => {
+          for (const { resource, unchanged, success } of result.deployed) {
+            console.log(
+              unchanged
+                ? `Resource '${resource}' is unchanged`
+                : success
+                  ? `Deployed resource '${resource}'`
+                  : `Resource '${resource}' was deployed but failed to start`
+            );
+          }
+          if (!result.success) console.error('Deploy failed');
+        }
+      );
+    }
+  );
+
+program.parseAsync().catch((error) => {
+  if (program.opts().json && error instanceof CoreManagerError) {
+    console.log(JSON.stringify(describeError(error), null, 2));
+  } else {
+    console.error(error instanceof Error ? error.message : error);
+  }
+  process.exit(getExitCode(error));
+});
@@ -6,9 +6,9 @@ import Page_misc_example from '../plugins/[misc]/example/html/Page.tsx';
 const App = () => {
   return (
     <div className="h-dvh">
-<Page_example2 />
-<Page_misc2_example1 />
-<Page_misc_example />
+      <Page_example2 />
+      <Page_misc2_example1 />
+      <Page_misc_example />
     </div>
   );
 };
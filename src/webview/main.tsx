@@ -7,6 +7,16 @@ import { setupDevTools, simulateNuiEvent } from '../utils/devtools.ts';
 import './i18n';
 import { MenuProvider } from './context/MenuContext.tsx';
 
+// Reload the frame when the core reports new UI files (see src/core/client)
+window.addEventListener(
+  'message',
+  (event: MessageEvent<{ action?: string }>) => {
+    if (event.data?.action === 'core:reloadNui') {
+      window.location.reload();
+    }
+  }
+);
+
 // Initialize the app
 const initApp = () => {
   createRoot(document.getElementById('root')!).render(
@@ -343,10 +343,12 @@ function generateAccessibleTextUtilities() {
 }
 
 module.exports = {
+  // Only UI sources: scanning scripts or server code picks up strings that are not classes
   content: [
-    './src/**/*.{js,jsx,ts,tsx,astro,html}',
-    './pages/**/*.{js,jsx,ts,tsx,astro,html}',
-    './components/**/*.{js,jsx,ts,tsx,astro,html}',
+    './src/index.html',
+    './src/webview/**/*.{js,jsx,ts,tsx,html}',
+    './src/plugins/**/html/**/*.{js,jsx,ts,tsx,html}',
+    './src/utils/**/*.{js,jsx,ts,tsx}',
   ],
   theme: {
     extend: {